@@ -0,0 +1,137 @@
+import { z } from "zod";
+import { ArgumentError, keyword, parseValue } from "@/lib/commandParser";
+import { defineCommand } from "@/lib/commandRegistry";
+import { identifier, parseBlockQuery, parseHeight } from "@/lib/identifiers";
+
+const blockQuery = { schema: identifier(parseBlockQuery), label: "block hash or height" };
+const timeFormat = { schema: keyword("UNIX", "LOCAL").optional(), label: "time format (UNIX or LOCAL)" };
+const heightArg = { schema: identifier(parseHeight), label: "block height" };
+
+export default defineCommand({
+  name: "BLOCK",
+  aliases: [{ name: "BLOCKTIME", args: ["TIME"] }],
+  category: "Ordinals Recursive Endpoints",
+  description: "Retrieve block information.",
+  usage: "BLOCK [<hash or height>|HEIGHT|HASH|TIME]",
+  details:
+`BLOCK : get latest block info
+BLOCK <hash/height> : get block info at specified HASH or HEIGHT
+BLOCK HEIGHT : get latest block height
+BLOCK HASH : get latest block hash
+BLOCK HASH <height> : get block hash at specific height
+BLOCK TIME : shows the current block time (Unix and local)
+BLOCK TIME UNIX : shows only Unix timestamp
+BLOCK TIME LOCAL : shows only local time format
+BLOCKTIME : alias for BLOCK TIME`,
+  args: {
+    target: {
+      schema: z.string().optional(),
+      label: "block hash, height, HEIGHT, HASH or TIME",
+      suggest: ["HEIGHT", "HASH", "TIME"],
+    },
+    option: { schema: z.string().optional(), label: "option", suggest: ["UNIX", "LOCAL"] },
+  },
+  run: async ({ args }, { client, print }) => {
+    const command = args.target?.toUpperCase() ?? "";
+
+    if (command === "TIME") {
+      const option = parseValue(timeFormat, args.option);
+
+      const blockTime = await client.getBlockTime();
+
+      // Check if the response is a valid Unix timestamp (numeric)
+      if (!isNaN(Number(blockTime))) {
+        const timestamp = Number(blockTime) * 1000;
+        const date = new Date(timestamp);
+        const localDateTime = date.toLocaleString(); // Uses system timezone
+
+        if (option === "UNIX") {
+          // Unix timestamp only
+          print(`Current block time (Unix): ${blockTime}`, "success");
+        } else if (option === "LOCAL") {
+          // Local time only
+          print(`Current block time (Local): ${localDateTime}`, "success");
+        } else {
+          // Both formats (default)
+          print(`Current block time: ${blockTime} (${localDateTime})`, "success");
+        }
+      } else {
+        print(`Current block time: ${blockTime}`, "success");
+      }
+      return;
+    }
+
+    // Apart from TIME, only HASH takes a second argument
+    if (command !== "HASH" && args.option !== undefined) {
+      throw new ArgumentError(`unexpected argument '${args.option}'`);
+    }
+
+    if (command === "HEIGHT") {
+      // Get latest block height
+      print("Fetching latest block height...", "default");
+
+      const height = await client.getBlockHeight();
+
+      if (height !== null) {
+        print(`Current block height: ${height}`, "success");
+        return height;
+      } else {
+        print("Could not retrieve block height", "error");
+      }
+      return;
+    }
+
+    if (command === "HASH") {
+      let blockHeight: number | null;
+
+      if (args.option !== undefined) {
+        // Get hash for specific height
+        blockHeight = parseValue(heightArg, args.option);
+        print(`Fetching block hash for height ${blockHeight}...`, "default");
+      } else {
+        // Get hash for latest block
+        print("Fetching latest block hash...", "default");
+
+        blockHeight = await client.getBlockHeight();
+
+        if (blockHeight === null) {
+          print("Could not retrieve block height for hash lookup", "error");
+          return;
+        }
+      }
+
+      // Now get the block info to extract the hash
+      const info = await client.getBlockInfo(blockHeight);
+
+      if (info && info.hash) {
+        print(`Block hash for height ${blockHeight}: ${info.hash}`, "success");
+        return info.hash;
+      } else {
+        print("Could not retrieve block hash", "error");
+      }
+      return;
+    }
+
+    if (args.target === undefined) {
+      // No arguments: get the latest block info
+      const height = await client.getBlockHeight();
+
+      if (height === null) {
+        print("Could not retrieve block height", "error");
+        return;
+      }
+
+      print(`Retrieving latest block (height: ${height})...`, "default");
+      const info = await client.getBlockInfo(height);
+      print(JSON.stringify(info, null, 2), "json");
+      return info;
+    } else {
+      // Handle block by hash or height
+      const blockId = parseValue(blockQuery, args.target);
+      print(`Retrieving block ${blockId}...`, "default");
+      const info = await client.getBlockInfo(blockId);
+      print(JSON.stringify(info, null, 2), "json");
+      return info;
+    }
+  },
+});
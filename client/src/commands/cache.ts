@@ -0,0 +1,73 @@
+import { keyword } from "@/lib/commandParser";
+import { defineCommand } from "@/lib/commandRegistry";
+import { downloadFile } from "@/lib/download";
+import { ordCache } from "@/lib/ordCache";
+
+function formatBytes(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
+
+const TEXT_TYPES = /^(text\/|application\/(json|javascript|xml)|image\/svg\+xml)/;
+
+export default defineCommand({
+  name: "CACHE",
+  category: "Configuration",
+  description: "Inspect and manage the response cache.",
+  details:
+`CACHE STATS : shows hit rates and how many responses are cached
+CACHE CLEAR : removes every cached response, including persisted ones
+CACHE EXPORT : downloads the cached responses as a JSON file
+Immutable responses (content, transactions, buried blocks) are kept across sessions.
+Volatile responses (chain tip, UTXOs, sats) are kept for a few seconds only.
+Responses are cached per endpoint and network.`,
+  args: {
+    action: { schema: keyword("STATS", "CLEAR", "EXPORT").default("STATS"), label: "STATS, CLEAR or EXPORT" },
+  },
+  run: async ({ args }, { print }) => {
+    switch (args.action) {
+      case "STATS": {
+        const stats = await ordCache.stats();
+        const lookups = stats.memoryHits + stats.persistentHits + stats.misses;
+        const hitRate = lookups > 0 ? Math.round(((lookups - stats.misses) / lookups) * 100) : 0;
+
+        print("Cache statistics:", "success");
+        print(`Hits: ${stats.memoryHits} in memory, ${stats.persistentHits} from IndexedDB (${hitRate}% of ${lookups} lookups)`, "default");
+        print(`Misses: ${stats.misses}`, "default");
+        print(`In memory: ${stats.immutableEntries} immutable, ${stats.volatileEntries} volatile (${formatBytes(stats.memoryBytes)})`, "default");
+        print(`Persisted in IndexedDB: ${stats.persistentEntries}`, "default");
+        break;
+      }
+
+      case "CLEAR":
+        await ordCache.clear();
+        print("Cache cleared.", "success");
+        break;
+
+      case "EXPORT": {
+        const entries = await ordCache.entries();
+        const exported = entries.map(entry => {
+          const isText = entry.contentType !== null && TEXT_TYPES.test(entry.contentType);
+          const bytes = new Uint8Array(entry.body);
+          return {
+            url: entry.url,
+            endpoint: entry.endpoint,
+            network: entry.network,
+            status: entry.status,
+            contentType: entry.contentType,
+            storedAt: new Date(entry.storedAt).toISOString(),
+            encoding: isText ? "utf-8" : "base64",
+            body: isText
+              ? new TextDecoder().decode(bytes)
+              : btoa(Array.from(bytes, b => String.fromCharCode(b)).join("")),
+          };
+        });
+
+        downloadFile("termina-cache.json", JSON.stringify(exported, null, 2), "application/json");
+        print(`Exported ${exported.length} cached responses to termina-cache.json`, "success");
+        break;
+      }
+    }
+  },
+});
@@ -0,0 +1,12 @@
+import { defineCommand } from "@/lib/commandRegistry";
+
+export default defineCommand({
+  name: "CLEAR",
+  category: "Configuration",
+  description: "Clear the console.",
+  args: {},
+  run: (_input, { print, clear }) => {
+    clear();
+    print("Console cleared.", "system");
+  },
+});
@@ -0,0 +1,19 @@
+import { z } from "zod";
+import { defineCommand } from "@/lib/commandRegistry";
+
+export default defineCommand({
+  name: "ECHO",
+  category: "Scripting",
+  description: "Print text, with $variables replaced.",
+  details:
+`ECHO <text...> : prints the text; useful in scripts and macros
+ECHO Sat of the last result: $_.sat`,
+  args: {
+    text: { schema: z.array(z.string()), label: "text", rest: true },
+  },
+  run: ({ args }, { print }) => {
+    const text = args.text.join(" ");
+    print(text, "default");
+    return text;
+  },
+});
@@ -0,0 +1,109 @@
+import { z } from "zod";
+import { ArgumentError, keyword } from "@/lib/commandParser";
+import { defineCommand } from "@/lib/commandRegistry";
+import { describeUrl, endpointStore, networkKeyword, probeRow } from "@/lib/connectivity";
+import { endpointFailover } from "@/lib/failover";
+import { formatTable } from "@/lib/table";
+
+const PROBE_TIMEOUT = 5000;
+
+// Health as seen by real requests since the last probe
+function describeHealth(name: string): string {
+  const health = endpointFailover.health(name);
+  if (!health) return "";
+  return health.healthy ? "ok" : `down: ${health.lastError ?? "unknown error"}`;
+}
+
+export default defineCommand({
+  name: "ENDPOINT",
+  category: "Configuration",
+  description: "Manage named ord servers.",
+  details:
+`ENDPOINT LIST : lists endpoints with the result of the last probe
+ENDPOINT ADD <name> <url> [--network N] : saves an endpoint on the current or given network
+  (e.g. ENDPOINT ADD BOX http://localhost:8080 --network signet)
+ENDPOINT USE <name> : sends all further requests to the endpoint, switching network if needed
+ENDPOINT REMOVE <name> : deletes a saved endpoint
+ENDPOINT PROBE : checks the current network's endpoints in parallel for latency, tip height and chain
+ORD, PROXY and WEB are built in. Endpoints are kept across sessions.
+Failed requests are retried, then sent to the next healthy endpoint until the chosen one recovers.`,
+  args: {
+    action: { schema: keyword("LIST", "ADD", "USE", "REMOVE", "PROBE").default("LIST"), label: "LIST, ADD, USE, REMOVE or PROBE" },
+    name: { schema: z.string().optional(), label: "endpoint name" },
+    url: { schema: z.string().optional(), label: "url" },
+  },
+  flags: {
+    network: { schema: networkKeyword().optional(), label: "network", description: "Network the endpoint serves (default: current network)" },
+  },
+  run: async ({ args, flags }, { print, status, endpoint: current, setEndpoint, network, setNetwork }) => {
+    const requireName = () => {
+      if (args.name === undefined) {
+        throw new ArgumentError("missing endpoint name");
+      }
+      return args.name;
+    };
+
+    switch (args.action) {
+      case "LIST": {
+        const rows = endpointStore.list().map(endpoint => {
+          const probe = endpointStore.lastProbe(endpoint.name);
+          return {
+            ...(probe ? probeRow(probe) : { endpoint: endpoint.name, url: describeUrl(endpoint.url), network: endpoint.network ?? "" }),
+            active: endpoint.name === current.name ? "*" : "",
+            health: describeHealth(endpoint.name),
+          };
+        });
+        formatTable(["active", "endpoint", "url", "network", "status", "latency", "tip", "health"], rows).forEach(line => print(line, "default"));
+
+        const serving = endpointFailover.current;
+        if (serving && serving.name !== current.name) {
+          print(`${current.name} is unreachable; requests are going to ${serving.name} until it recovers.`, "system");
+        }
+        break;
+      }
+
+      case "ADD": {
+        const name = requireName();
+        if (args.url === undefined) {
+          throw new ArgumentError("missing url");
+        }
+        const endpoint = endpointStore.add(name, args.url, flags.network ?? network);
+        print(`Saved ${endpoint.network} endpoint ${endpoint.name} (${describeUrl(endpoint.url)}).`, "success");
+        break;
+      }
+
+      case "USE": {
+        const name = requireName();
+        const endpoint = endpointStore.get(name);
+        if (!endpoint) {
+          throw new Error(`No endpoint named ${name}. Type ENDPOINT LIST to see saved endpoints.`);
+        }
+        if (endpoint.network !== null && endpoint.network !== network) {
+          setNetwork(endpoint.network);
+          print(`Switched network to ${endpoint.network}.`, "system");
+        }
+        setEndpoint(endpoint);
+        print(`Using endpoint ${endpoint.name} (${describeUrl(endpoint.url)}).`, "success");
+        break;
+      }
+
+      case "REMOVE": {
+        const name = requireName();
+        if (endpointStore.get(name)?.name === current.name) {
+          throw new Error(`${current.name} is in use; switch to another endpoint first.`);
+        }
+        const endpoint = endpointStore.remove(name);
+        print(`Removed endpoint ${endpoint.name}.`, "success");
+        break;
+      }
+
+      case "PROBE": {
+        status(`Probing ${endpointStore.list().length} endpoints...`);
+        const results = await endpointStore.probeAll(PROBE_TIMEOUT);
+        endpointFailover.recordProbes(results);
+        formatTable(["endpoint", "url", "network", "status", "latency", "tip"], results.map(probeRow)).forEach(line => print(line, "default"));
+        break;
+      }
+    }
+  },
+});
@@ -0,0 +1,57 @@
+import { z } from "zod";
+import { formatFlagHelp } from "@/lib/commandParser";
+import { commandUsage, defineCommand } from "@/lib/commandRegistry";
+import { listFilters } from "@/lib/pipeline";
+
+export default defineCommand({
+  name: "HELP",
+  category: "Configuration",
+  description: "Displays help information for available commands.",
+  args: {
+    command: { schema: z.string().optional(), label: "command name" },
+  },
+  run: ({ args }, { print, registry }) => {
+    if (args.command === undefined) {
+      print("For more information on a specific command, type HELP command-name. Your options are:", "system");
+
+      let first = true;
+      registry.byCategory().forEach((commands, category) => {
+        if (!first) {
+          print("", "default");
+        }
+        first = false;
+
+        print(`${category}:`, "success");
+        commands.forEach(command => {
+          print(`${command.name} - ${command.description.replace(/\.$/, "")}`, "default");
+        });
+      });
+
+      print("", "default");
+      print("Pipelines (e.g. INSCRIPTION <id> CHILDREN --all | SELECT .ids | COUNT):", "success");
+      listFilters().forEach(({ usage, description }) => print(`${usage} - ${description}`, "default"));
+      return;
+    }
+
+    const commandName = args.command.toUpperCase();
+    const resolved = registry.resolve(commandName);
+    if (!resolved) {
+      print(`No help available for '${commandName}'. Type HELP to see available commands.`, "error");
+      return;
+    }
+
+    const { command } = resolved;
+    print(`${command.name} - ${command.description}`, "system");
+    print(`Usage: ${commandUsage(command)}`, "default");
+    if (command.details) {
+      // Split details by lines and display each line separately for proper formatting
+      command.details.split("\n").forEach(line => {
+        print(line, "default");
+      });
+    }
+    if (command.flags && Object.keys(command.flags).length > 0) {
+      print("Options:", "default");
+      formatFlagHelp(command.flags).forEach(line => print(line, "default"));
+    }
+  },
+});
@@ -0,0 +1,64 @@
+import { z } from "zod";
+import { ArgumentError, integer, keyword } from "@/lib/commandParser";
+import { defineCommand } from "@/lib/commandRegistry";
+import { commandHistory, type HistoryEntry } from "@/lib/history";
+
+function formatEntry({ number, command }: HistoryEntry, width: number): string {
+  return `${String(number).padStart(width)}  ${command}`;
+}
+
+export default defineCommand({
+  name: "HISTORY",
+  category: "Configuration",
+  description: "Show, search or clear the command history.",
+  usage: "HISTORY [<n>|SEARCH <term>|CLEAR]",
+  details:
+`HISTORY : lists every saved command with its number
+HISTORY <n> : lists the last n commands
+HISTORY SEARCH <term> : lists commands containing term
+HISTORY CLEAR : forgets every saved command
+!! runs the last command again, !n runs command n. Ctrl+R searches history as you type.`,
+  args: {
+    action: {
+      schema: z.union([keyword("SEARCH", "CLEAR"), integer(1)]).optional(),
+      label: "count, SEARCH or CLEAR",
+      suggest: ["SEARCH", "CLEAR"],
+    },
+    term: { schema: z.array(z.string()), label: "search term", rest: true },
+  },
+  run: ({ args }, { print }) => {
+    const { action } = args;
+    if (action !== "SEARCH" && args.term.length > 0) {
+      throw new ArgumentError(`unexpected argument '${args.term[0]}'`);
+    }
+
+    if (action === "CLEAR") {
+      commandHistory.clear();
+      print("Command history cleared.", "system");
+      return;
+    }
+
+    let entries: HistoryEntry[];
+    if (action === "SEARCH") {
+      if (args.term.length === 0) {
+        throw new ArgumentError("missing search term");
+      }
+      const term = args.term.join(" ");
+      entries = commandHistory.search(term);
+      if (entries.length === 0) {
+        print(`No commands matching '${term}'.`, "system");
+        return;
+      }
+    } else {
+      entries = commandHistory.list(action);
+      if (entries.length === 0) {
+        print("No commands in history.", "system");
+        return;
+      }
+    }
+
+    const width = String(entries[entries.length - 1].number).length;
+    entries.forEach(entry => print(formatEntry(entry, width), "default"));
+    return entries;
+  },
+});
@@ -0,0 +1,24 @@
+// Importing a command module registers it with the shared registry.
+// Order here is the order commands (and their categories) appear in HELP.
+import "./mode";
+import "./endpoint";
+import "./network";
+import "./clear";
+import "./time";
+import "./cache";
+import "./history";
+import "./set";
+import "./help";
+import "./block";
+import "./inscription";
+import "./sat";
+import "./satcalc";
+import "./transaction";
+import "./utxo";
+import "./lookup";
+import "./oci";
+import "./echo";
+import "./macro";
+import "./run";
+
+export { commandRegistry } from "@/lib/commandRegistry";
@@ -0,0 +1,89 @@
+import { describe, expect, it, vi } from "vitest";
+import { ArgumentError } from "@/lib/commandParser";
+import type { CommandContext } from "@/lib/commandRegistry";
+import { downloadFile } from "@/lib/download";
+import inscription from "./inscription";
+
+vi.mock("@/lib/download", () => ({ downloadFile: vi.fn() }));
+
+const ID = `${"ab".repeat(32)}i0`;
+const child = (n: number) => ({
+  charms: [], fee: 1, height: 800_000 + n, id: `${"cd".repeat(32)}i${n}`, number: n,
+  output: `${"cd".repeat(32)}:0`, sat: 1_000 + n, satpoint: `${"cd".repeat(32)}:0:0`, timestamp: 0,
+});
+
+// A terminal whose ord server has two pages of children; counts inscription lookups
+function fakeTerminal() {
+  const lines: string[] = [];
+  const lookups: string[] = [];
+  const ctx = {
+    print: (text: string) => lines.push(text),
+    status: () => {},
+    client: {
+      getChildInscriptions: async (_id: string, page = 0) => ({ children: [child(page * 2), child(page * 2 + 1)], more: page === 0, page }),
+      getChildren: async (_id: string, page = 0) => ({ ids: [child(page * 2).id, child(page * 2 + 1).id], more: page === 0, page }),
+      getInscription: async (id: string) => {
+        lookups.push(id);
+        return { content_type: "text/plain" };
+      },
+    },
+  } as unknown as CommandContext;
+  return { ctx, lines, lookups };
+}
+
+const defaults = { all: false, details: false, contentTypes: false, count: false, up: false, down: false };
+
+function children(flags: Partial<typeof defaults>, ctx: CommandContext) {
+  return inscription.run({ args: { inscription_id: ID, view: "CHILDREN" }, flags: { ...defaults, ...flags } }, ctx);
+}
+
+describe("INSCRIPTION CHILDREN", () => {
+  it("builds --details from the children list alone", async () => {
+    const { ctx, lookups } = fakeTerminal();
+    expect(await children({ details: true }, ctx)).toEqual([
+      { number: 0, id: child(0).id, sat: 1_000, height: 800_000 },
+      { number: 1, id: child(1).id, sat: 1_001, height: 800_001 },
+    ]);
+    expect(lookups).toEqual([]);
+  });
+
+  it("looks up content types only when asked", async () => {
+    const { ctx, lookups } = fakeTerminal();
+    const rows = await children({ details: true, contentTypes: true, all: true }, ctx) as { content_type: string }[];
+    expect(rows.map(row => row.content_type)).toEqual(Array(4).fill("text/plain"));
+    expect(lookups).toHaveLength(4);
+  });
+
+  it("counts every page", async () => {
+    const { ctx, lines } = fakeTerminal();
+    expect(await children({ count: true }, ctx)).toBe(4);
+    expect(lines).toEqual(["4 children (2 pages)"]);
+  });
+
+  it("rejects --details with --count, and --content-types without --details", async () => {
+    const { ctx } = fakeTerminal();
+    await expect(children({ details: true, count: true }, ctx)).rejects.toThrow(ArgumentError);
+    await expect(children({ details: true, count: true }, ctx)).rejects.toThrow("use either --details or --count");
+    await expect(children({ contentTypes: true }, ctx)).rejects.toThrow("--content-types only applies to --details");
+  });
+});
+
+describe("INSCRIPTION TREE", () => {
+  it("saves the printed trees with --format TEXT", async () => {
+    const { ctx, lines } = fakeTerminal();
+    const parent = `${"ef".repeat(32)}i0`;
+    Object.assign(ctx.client, {
+      getParents: async (id: string) => ({ ids: id === ID ? [parent] : [], more: false, page: 0 }),
+      getChildren: async (id: string) => ({ ids: id === ID ? [child(0).id] : [], more: false, page: 0 }),
+    });
+
+    await inscription.run({ args: { inscription_id: ID, view: "TREE" }, flags: { ...defaults, format: "TEXT" } }, ctx);
+
+    expect(vi.mocked(downloadFile).mock.calls).toEqual([[
+      `provenance-${ID.slice(0, 8)}.txt`,
+      `PARENTS:\n${ID}\n└── ${parent}\n\nCHILDREN:\n${ID}\n└── ${child(0).id}\n`,
+      "text/plain",
+    ]]);
+    expect(lines).toContain(`Saved provenance-${ID.slice(0, 8)}.txt`);
+  });
+});
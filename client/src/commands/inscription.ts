@@ -0,0 +1,333 @@
+import { z } from "zod";
+import { ArgumentError, integer, keyword } from "@/lib/commandParser";
+import { type CommandContext, defineCommand } from "@/lib/commandRegistry";
+import { mapWithConcurrency } from "@/lib/concurrency";
+import type { ConsolePrinter } from "@/lib/console";
+import { downloadFile } from "@/lib/download";
+import { identifier, parseInscriptionId } from "@/lib/identifiers";
+import { buildPreview } from "@/lib/mediaPreview";
+import type { InscriptionIdPage, RelatedInscriptionInfo } from "@/lib/ordClient";
+import { collectPages, type Paginated, pageLimitWarning } from "@/lib/pagination";
+import { type ProvenanceGraph, renderTree, toDot, walkProvenance } from "@/lib/provenance";
+import { formatTable, type TableRow } from "@/lib/table";
+
+// Print metadata as JSON when it parses, raw text otherwise; returns what was printed
+function printMetadata(print: ConsolePrinter, metadata: string): unknown {
+  try {
+    const parsed = JSON.parse(metadata);
+    print(JSON.stringify(parsed, null, 2), "json");
+    return parsed;
+  } catch (parseError) {
+    print(metadata, "default");
+    return metadata;
+  }
+}
+
+interface RelativesOptions {
+  page?: number;
+  all: boolean;
+  details: boolean;
+  contentTypes: boolean;
+  count: boolean;
+}
+
+interface RelatedInscriptionsPage extends Paginated {
+  inscriptions: RelatedInscriptionInfo[];
+}
+
+// PARENTS and CHILDREN: one page of IDs by default, every page with --all,
+// a table with --details, or just the total with --count
+async function showRelatives(relation: "PARENTS" | "CHILDREN", inscriptionId: string, options: RelativesOptions, ctx: CommandContext): Promise<unknown> {
+  const { client, print, status } = ctx;
+  const noun = relation === "PARENTS" ? "parents" : "children";
+  // Counting without a page means counting everything
+  const all = options.all || (options.count && options.page === undefined);
+  const from = options.page ?? 0;
+  const progress = (_page: unknown, fetched: number) => {
+    if (all) status(`Fetched ${fetched} page${fetched === 1 ? "" : "s"} of ${noun}...`);
+  };
+
+  if (options.details) {
+    // The /inscriptions variants list each relative's details, a page at a time
+    const fetchDetails = (page: number): Promise<RelatedInscriptionsPage> => relation === "PARENTS"
+      ? client.getParentInscriptions(inscriptionId, page).then(({ parents, ...rest }) => ({ ...rest, inscriptions: parents }))
+      : client.getChildInscriptions(inscriptionId, page).then(({ children, ...rest }) => ({ ...rest, inscriptions: children }));
+    const pages = await collectPages(fetchDetails, { from, all, onPage: progress });
+    const inscriptions = pages.flatMap(page => page.inscriptions);
+
+    const rows: TableRow[] = inscriptions.map(inscription => ({
+      number: inscription.number,
+      id: inscription.id,
+      sat: inscription.sat,
+      height: inscription.height,
+    }));
+    // Content types aren't in those lists, so they cost a request per row
+    if (options.contentTypes) {
+      const contentTypes = await mapWithConcurrency(inscriptions, 4, async inscription => {
+        try {
+          return (await client.getInscription(inscription.id)).content_type;
+        } catch {
+          return null;
+        }
+      }, (done, total) => status(`Fetching content types ${done}/${total}...`));
+      rows.forEach((row, i) => (row.content_type = contentTypes[i]));
+    }
+
+    const columns = ["number", "id", "sat", "height", ...(options.contentTypes ? ["content_type"] : [])];
+    printRelativesTable(print, columns, rows, noun);
+    printMoreHint(print, pages, all);
+    return rows;
+  }
+
+  const fetchPage = (page: number) => relation === "PARENTS"
+    ? client.getParents(inscriptionId, page)
+    : client.getChildren(inscriptionId, page);
+  const pages = await collectPages<InscriptionIdPage>(fetchPage, { from, all, onPage: progress });
+  const ids = pages.flatMap(page => page.ids);
+  const last = pages[pages.length - 1];
+
+  if (options.count) {
+    const scope = all ? "" : ` on page ${from}`;
+    const warning = pageLimitWarning(pages, all);
+    const total = warning ? `At least ${ids.length}` : `${ids.length}`;
+    print(`${total} ${noun}${scope} (${pages.length} page${pages.length === 1 ? "" : "s"})`, "success");
+    if (warning) print(warning, "system");
+    return ids.length;
+  }
+
+  const result = { ids, more: last.more, page: last.page };
+  print(JSON.stringify(result, null, 2), "json");
+  printMoreHint(print, pages, all);
+  return result;
+}
+
+function printRelativesTable(print: ConsolePrinter, columns: string[], rows: TableRow[], noun: string) {
+  if (rows.length === 0) {
+    print(`No ${noun}.`, "system");
+    return;
+  }
+  formatTable(columns, rows).forEach(line => print(line, "default"));
+  print(`${rows.length} ${noun}`, "success");
+}
+
+function printMoreHint(print: ConsolePrinter, pages: Paginated[], all: boolean) {
+  const last = pages[pages.length - 1];
+  const warning = pageLimitWarning(pages, all);
+  if (warning) {
+    print(warning, "system");
+  } else if (last.more && !all) {
+    print(`More available: add --page ${last.page + 1}, or --all for every page.`, "system");
+  }
+}
+
+const DEFAULT_TREE_DEPTH = 3;
+const DEFAULT_TREE_BUDGET = 200;
+
+interface TreeOptions {
+  depth?: number;
+  up: boolean;
+  down: boolean;
+  budget?: number;
+  format?: "TEXT" | "JSON" | "DOT";
+}
+
+// TREE: parents and/or children, recursively, as box-drawing trees; saved as
+// those trees in a text file, JSON or Graphviz DOT with --format
+async function showTree(inscriptionId: string, options: TreeOptions, { client, print, status }: CommandContext): Promise<ProvenanceGraph> {
+  // Neither direction given means both
+  const up = options.up || !options.down;
+  const down = options.down || !options.up;
+  const depth = options.depth ?? DEFAULT_TREE_DEPTH;
+  const budget = options.budget ?? DEFAULT_TREE_BUDGET;
+
+  const graph = await walkProvenance(client, inscriptionId, {
+    depth,
+    up,
+    down,
+    budget,
+    onProgress: (nodes, requests) => status(`Walked ${nodes} inscriptions with ${requests}/${budget} requests...`),
+  });
+
+  const sections: [string, string[]][] = [];
+  if (up) sections.push(["PARENTS:", renderTree(graph, "up")]);
+  if (down) sections.push(["CHILDREN:", renderTree(graph, "down")]);
+  sections.forEach(([heading, lines]) => {
+    print(heading, "success");
+    lines.forEach(line => print(line, "default"));
+  });
+  print(`${graph.nodes.length} inscriptions, ${graph.edges.length} links, ${graph.requests} requests`, "success");
+  if (graph.budgetExhausted) {
+    print(`Stopped after ${budget} requests; raise --budget to walk further. Inscriptions marked … were not expanded.`, "system");
+  } else if (graph.unexpanded.length > 0) {
+    print(`Stopped at depth ${depth}; raise --depth to walk further. Inscriptions marked … were not expanded.`, "system");
+  }
+
+  const name = `provenance-${inscriptionId.slice(0, 8)}`;
+  if (options.format === "TEXT") {
+    const text = sections.map(([heading, lines]) => [heading, ...lines].join("\n")).join("\n\n") + "\n";
+    downloadFile(`${name}.txt`, text, "text/plain");
+    print(`Saved ${name}.txt`, "success");
+  } else if (options.format === "JSON") {
+    const exported = { ...graph, depth, direction: up && down ? "both" : up ? "up" : "down" };
+    downloadFile(`${name}.json`, JSON.stringify(exported, null, 2), "application/json");
+    print(`Saved ${name}.json`, "success");
+  } else if (options.format === "DOT") {
+    downloadFile(`${name}.dot`, toDot(graph), "text/vnd.graphviz");
+    print(`Saved ${name}.dot`, "success");
+  }
+  return graph;
+}
+
+export default defineCommand({
+  name: "INSCRIPTION",
+  category: "Ordinals Recursive Endpoints",
+  description: "Query inscription data.",
+  details:
+`INSCRIPTION <inscription_id> : This is the main command, returns all information
+INSCRIPTION <inscription_id> CONTENT : Preview content of inscription inline
+INSCRIPTION <inscription_id> UNDELEGATED : Preview undelegated content of inscription
+Images, text, JSON, HTML/SVG (sandboxed), audio and video are shown inline.
+INSCRIPTION <inscription_id> INFO : Return inscription info
+INSCRIPTION <inscription_id> METADATA : Returns inscription METADATA
+INSCRIPTION <inscription_id> PARENTS : Returns inscription PARENTS
+INSCRIPTION <inscription_id> CHILDREN : Returns inscription CHILDREN
+PARENTS and CHILDREN take --page N, --all (every page), --details (table) and --count.
+--details --content-types adds each one's content type, at one request per row.
+INSCRIPTION <inscription_id> TREE : Walk PARENTS and CHILDREN recursively
+TREE takes --depth N (default ${DEFAULT_TREE_DEPTH}), --up or --down for one direction, --budget N
+(most requests to make, default ${DEFAULT_TREE_BUDGET}) and --format TEXT|JSON|DOT to save the trees or graph.`,
+  args: {
+    inscription_id: { schema: identifier(parseInscriptionId), label: "inscription id" },
+    view: {
+      schema: keyword("CONTENT", "UNDELEGATED", "INFO", "METADATA", "PARENTS", "CHILDREN", "TREE").optional(),
+      label: "CONTENT, UNDELEGATED, INFO, METADATA, PARENTS, CHILDREN or TREE",
+    },
+  },
+  flags: {
+    page: { schema: integer(0).optional(), label: "page number", description: "PARENTS/CHILDREN page to show (from 0)" },
+    all: { schema: z.boolean().default(false), label: "all", description: "follow PARENTS/CHILDREN pages until the last" },
+    details: {
+      schema: z.boolean().default(false),
+      label: "details",
+      description: "show PARENTS/CHILDREN as a table with number, sat and height",
+    },
+    contentTypes: {
+      schema: z.boolean().default(false),
+      label: "content types",
+      description: "add content types to --details (one request per row)",
+    },
+    count: { schema: z.boolean().default(false), label: "count", description: "only count PARENTS/CHILDREN" },
+    depth: { schema: integer(1, 20).optional(), label: "1-20", description: "TREE generations to walk" },
+    up: { schema: z.boolean().default(false), label: "up", description: "TREE of parents only" },
+    down: { schema: z.boolean().default(false), label: "down", description: "TREE of children only" },
+    budget: { schema: integer(1, 10000).optional(), label: "1-10000", description: "most requests TREE may make" },
+    format: { schema: keyword("TEXT", "JSON", "DOT").optional(), label: "TEXT, JSON or DOT", description: "save TREE as a text file, JSON or DOT" },
+  },
+  run: async ({ args, flags }, ctx) => {
+    const { client, print, printMedia, status } = ctx;
+    const inscriptionId = args.inscription_id;
+    const subcommand = args.view ?? "ALL";
+
+    const paging = flags.page !== undefined || flags.all || flags.details || flags.count;
+    if (paging && subcommand !== "PARENTS" && subcommand !== "CHILDREN") {
+      throw new ArgumentError("--page, --all, --details and --count only apply to PARENTS and CHILDREN");
+    }
+    if (flags.page !== undefined && flags.all) {
+      throw new ArgumentError("use either --page or --all");
+    }
+    if (flags.details && flags.count) {
+      throw new ArgumentError("use either --details or --count");
+    }
+    if (flags.contentTypes && !flags.details) {
+      throw new ArgumentError("--content-types only applies to --details");
+    }
+    const tree = flags.depth !== undefined || flags.up || flags.down || flags.budget !== undefined || flags.format !== undefined;
+    if (tree && subcommand !== "TREE") {
+      throw new ArgumentError("--depth, --up, --down, --budget and --format only apply to TREE");
+    }
+    if (flags.up && flags.down) {
+      throw new ArgumentError("use either --up or --down, or neither for both");
+    }
+
+    let url;
+    let metadata;
+
+    switch (subcommand) {
+      case "ALL":
+        // Return all available information
+        print(`Retrieving all information for inscription ${inscriptionId}:`, "system");
+
+        // Get inscription info
+        try {
+          const info = await client.getInscription(inscriptionId);
+          print("INFO:", "success");
+          print(JSON.stringify(info, null, 2), "json");
+        } catch (error) {
+          print(`Error fetching INFO: ${error instanceof Error ? error.message : "Unknown error"}`, "error");
+        }
+
+        // Get content link
+        print("CONTENT:", "success");
+        try {
+          printMedia(await buildPreview(client, inscriptionId));
+        } catch (error) {
+          print(`Error previewing CONTENT: ${error instanceof Error ? error.message : "Unknown error"}`, "error");
+          print(`To view content, visit: ${client.contentUrl(inscriptionId)}`, "default");
+        }
+
+        // Get metadata if available
+        try {
+          print(`Fetching metadata from: ${client.url(`/r/metadata/${inscriptionId}`)}`, "default");
+          metadata = await client.getMetadata(inscriptionId);
+
+          if (metadata === null) {
+            print("METADATA: No metadata available for this inscription", "system");
+          } else {
+            print("METADATA:", "success");
+            printMetadata(print, metadata);
+          }
+        } catch (error) {
+          print(`Error fetching METADATA: ${error instanceof Error ? error.message : "Unknown error"}`, "error");
+        }
+        break;
+
+      case "CONTENT":
+        url = client.contentUrl(inscriptionId);
+        print(`Retrieving content from: ${url}`, "default");
+        status("Loading preview...");
+        printMedia(await buildPreview(client, inscriptionId));
+        break;
+
+      case "UNDELEGATED":
+        url = client.undelegatedContentUrl(inscriptionId);
+        print(`Retrieving undelegated content from: ${url}`, "default");
+        status("Loading preview...");
+        printMedia(await buildPreview(client, inscriptionId, { undelegated: true }));
+        break;
+
+      case "INFO": {
+        const info = await client.getInscription(inscriptionId);
+        print(JSON.stringify(info, null, 2), "json");
+        return info;
+      }
+
+      case "METADATA":
+        print(`Fetching metadata from: ${client.url(`/r/metadata/${inscriptionId}`)}`, "default");
+        metadata = await client.getMetadata(inscriptionId);
+
+        if (metadata === null) {
+          print("No metadata available for this inscription", "system");
+          return null;
+        }
+        print("METADATA:", "success");
+        return printMetadata(print, metadata);
+
+      case "PARENTS":
+      case "CHILDREN":
+        return showRelatives(subcommand, inscriptionId, flags, ctx);
+
+      case "TREE":
+        return showTree(inscriptionId, flags, ctx);
+    }
+  },
+});
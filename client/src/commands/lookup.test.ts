@@ -0,0 +1,78 @@
+import { z } from "zod";
+import { describe, expect, it } from "vitest";
+import { type CommandContext, CommandRegistry } from "@/lib/commandRegistry";
+import { OrdRequestError } from "@/lib/ordClient";
+import { sessionVariables } from "@/lib/variables";
+import lookup from "./lookup";
+
+const HASH = "000000000019d6689c085ae165831e934ff763ae46a2a6c172b3f1b60a8ce26f";
+
+// A terminal whose BLOCK, TRANSACTION and SAT commands return what they were asked for
+function fakeTerminal(found: { block?: boolean; tx?: boolean; sat?: boolean }) {
+  const ran: string[] = [];
+  const registry = new CommandRegistry();
+  ["BLOCK", "TRANSACTION", "SAT"].forEach(name => registry.register({
+    name,
+    category: "Test",
+    description: name,
+    args: { value: { schema: z.string(), label: "value" } },
+    run: ({ args }) => {
+      ran.push(`${name} ${args.value}`);
+      return { command: name, value: args.value };
+    },
+  }));
+  const answer = (ok: boolean | undefined) => async () => {
+    if (!ok) throw new OrdRequestError(404, "test");
+    return {};
+  };
+  const ctx = {
+    registry,
+    print: () => {},
+    status: () => {},
+    client: { getBlockInfo: answer(found.block), getTransaction: answer(found.tx), getSat: answer(found.sat) },
+  } as unknown as CommandContext;
+  return { ctx, ran };
+}
+
+function runLookup(identifier: string, ctx: CommandContext) {
+  return lookup.run({ args: { identifier }, flags: {} }, ctx);
+}
+
+describe("LOOKUP", () => {
+  it("returns the result of the command it hands off to", async () => {
+    const { ctx, ran } = fakeTerminal({});
+    expect(await runLookup("1.0", ctx)).toEqual({ command: "SAT", value: "5000000000" });
+    expect(ran).toEqual(["SAT 5000000000"]);
+  });
+
+  it("runs only the readings that exist", async () => {
+    const { ctx, ran } = fakeTerminal({ block: true });
+    expect(await runLookup("840000", ctx)).toEqual({ command: "BLOCK", value: "840000" });
+    expect(ran).toEqual(["BLOCK 840000"]);
+  });
+
+  it("returns every result when several readings exist", async () => {
+    const { ctx } = fakeTerminal({ tx: true, block: true });
+    expect(await runLookup(HASH, ctx)).toEqual([
+      { command: "TRANSACTION", value: HASH },
+      { command: "BLOCK", value: HASH },
+    ]);
+  });
+
+  it("returns nothing when no reading exists", async () => {
+    const { ctx, ran } = fakeTerminal({});
+    expect(await runLookup(HASH, ctx)).toBeUndefined();
+    expect(ran).toEqual([]);
+  });
+
+  it("leaves recording $_ and $n to the LOOKUP line itself", async () => {
+    const { ctx } = fakeTerminal({ tx: true, block: true });
+    ctx.registry.register(lookup);
+    const before = sessionVariables.listResults().length;
+    await ctx.registry.execute(`LOOKUP ${HASH}`, ctx);
+    expect(sessionVariables.listResults().slice(before).map(entry => entry.value)).toEqual([[
+      { command: "TRANSACTION", value: HASH },
+      { command: "BLOCK", value: HASH },
+    ]]);
+  });
+});
@@ -0,0 +1,144 @@
+import { z } from "zod";
+import { type CommandContext, commandRegistry, defineCommand } from "@/lib/commandRegistry";
+import {
+  type ClassifiedIdentifier,
+  classifyIdentifier,
+  type IdentifierKind,
+  parseBlockHash,
+  parseInscriptionId,
+  parseOutpoint,
+  parseSatInput,
+} from "@/lib/identifiers";
+import { OrdRequestError } from "@/lib/ordClient";
+
+interface KindInfo {
+  label: string;
+  // Command that shows the identifier in full
+  command: (value: string | number) => string;
+  followUps: (value: string | number) => string[];
+  // Cheap existence check used to settle ambiguous input
+  exists: (ctx: CommandContext, value: string | number) => Promise<unknown>;
+}
+
+const KINDS: Record<IdentifierKind, KindInfo> = {
+  inscription: {
+    label: "inscription",
+    command: id => `INSCRIPTION ${id}`,
+    followUps: id => [`INSCRIPTION ${id} CONTENT`, `INSCRIPTION ${id} PARENTS`, `INSCRIPTION ${id} CHILDREN`],
+    exists: ({ client }, id) => client.getInscription(String(id)),
+  },
+  outpoint: {
+    label: "outpoint",
+    command: outpoint => `UTXO ${outpoint}`,
+    followUps: outpoint => [`TRANSACTION ${String(outpoint).split(":")[0]}`],
+    exists: ({ client }, outpoint) => client.getUtxo(String(outpoint)),
+  },
+  txid: {
+    label: "transaction",
+    command: txid => `TRANSACTION ${txid}`,
+    followUps: txid => [`UTXO ${txid}:0`],
+    exists: ({ client }, txid) => client.getTransaction(String(txid)),
+  },
+  blockhash: {
+    label: "block hash",
+    command: hash => `BLOCK ${hash}`,
+    followUps: () => [],
+    exists: ({ client }, hash) => client.getBlockInfo(hash),
+  },
+  height: {
+    label: "block height",
+    command: height => `BLOCK ${height}`,
+    followUps: height => [`BLOCK HASH ${height}`],
+    exists: ({ client }, height) => client.getBlockInfo(height),
+  },
+  sat: {
+    label: "sat",
+    command: sat => `SAT ${sat}`,
+    followUps: sat => [`SAT ${sat} INSCRIPTIONS`, `SAT ${sat} FIRST`, `SAT ${sat} LAST`],
+    exists: ({ client }, sat) => client.getSat(sat),
+  },
+};
+
+// The most relevant parse error for input that matched nothing
+function explain(input: string): string {
+  const parser = /i\d*$/i.test(input) ? parseInscriptionId
+    : input.includes(":") ? parseOutpoint
+    : /^[0-9a-f]+$/i.test(input) && /[a-f]/i.test(input) ? parseBlockHash
+    : parseSatInput;
+  try {
+    parser(input);
+  } catch (error) {
+    return error instanceof Error ? error.message : String(error);
+  }
+  return "unrecognized identifier";
+}
+
+function printFollowUps(ctx: CommandContext, reading: ClassifiedIdentifier) {
+  const followUps = KINDS[reading.kind].followUps(reading.value);
+  if (followUps.length > 0) {
+    ctx.print(`Try: ${followUps.join("  |  ")}`, "system");
+  }
+}
+
+export default defineCommand({
+  name: "LOOKUP",
+  category: "Ordinals Recursive Endpoints",
+  description: "Identify any ID and show what it refers to.",
+  details:
+`LOOKUP <anything> : detects inscription IDs, outpoints, txids, block hashes, heights and sats
+Ambiguous input (64 hex characters, or a whole number) is checked against every reading.
+An identifier typed on its own at the prompt runs LOOKUP (sat names need LOOKUP or SAT).`,
+  args: {
+    identifier: { schema: z.string(), label: "identifier" },
+  },
+  run: async ({ args }, ctx) => {
+    const { print, status, registry } = ctx;
+    const readings = classifyIdentifier(args.identifier);
+
+    if (readings.length === 0) {
+      throw new Error(`Not a recognized identifier: ${explain(args.identifier.trim())}`);
+    }
+
+    if (readings.length === 1) {
+      const [reading] = readings;
+      print(`Looks like a ${KINDS[reading.kind].label}.`, "system");
+      const result = await registry.executeCommand(KINDS[reading.kind].command(reading.value), ctx);
+      printFollowUps(ctx, reading);
+      return result;
+    }
+
+    status(`Checking ${readings.map(r => KINDS[r.kind].label).join(" and ")}...`);
+    const outcomes = await Promise.allSettled(readings.map(reading => KINDS[reading.kind].exists(ctx, reading.value)));
+    status(null);
+
+    const matches = readings.filter((_, i) => outcomes[i].status === "fulfilled");
+    readings.forEach((reading, i) => {
+      const outcome = outcomes[i];
+      const label = KINDS[reading.kind].label;
+      if (outcome.status === "fulfilled") {
+        print(`Matches a ${label}.`, "success");
+      } else {
+        const reason = outcome.reason instanceof OrdRequestError && outcome.reason.status === 404
+          ? "not found"
+          : outcome.reason instanceof Error ? outcome.reason.message : String(outcome.reason);
+        print(`Not a ${label}: ${reason}`, "default");
+      }
+    });
+
+    if (matches.length === 0) {
+      print(`Nothing found for ${args.identifier}.`, "error");
+      return undefined;
+    }
+
+    // One result per match, or just the one when the input was unambiguous after all
+    const results: unknown[] = [];
+    for (const reading of matches) {
+      results.push(await registry.executeCommand(KINDS[reading.kind].command(reading.value), ctx));
+      printFollowUps(ctx, reading);
+    }
+    return results.length === 1 ? results[0] : results;
+  },
+});
+
+// Bare identifiers at the prompt; words are left alone so command typos still say "Unknown command"
+commandRegistry.setFallback("LOOKUP", word => classifyIdentifier(word, { satNames: false }).length > 0);
@@ -0,0 +1,67 @@
+import { z } from "zod";
+import { ArgumentError, keyword } from "@/lib/commandParser";
+import { defineCommand } from "@/lib/commandRegistry";
+import { macroStore } from "@/lib/script";
+import { formatTable } from "@/lib/table";
+
+export default defineCommand({
+  name: "MACRO",
+  category: "Scripting",
+  description: "Define, list, show and delete macros.",
+  usage: "MACRO [LIST|DEFINE <name>|SHOW <name>|DELETE <name>]",
+  details:
+`MACRO DEFINE <name> : records the lines you type next as a macro, until END (CANCEL discards it)
+MACRO LIST : lists saved macros
+MACRO SHOW <name> : prints a macro's lines
+MACRO DELETE <name> : deletes a macro
+Run a macro with RUN <name> [args...]; inside it $1..$n are the args, $# their count and $@ all of them.
+Macros can use FOR <x> IN 1..10 / IF <a> == <b> / ELSE / END blocks and ECHO. They are kept in this browser.`,
+  args: {
+    action: { schema: keyword("LIST", "DEFINE", "SHOW", "DELETE").default("LIST"), label: "LIST, DEFINE, SHOW or DELETE" },
+    name: { schema: z.string().optional(), label: "macro name" },
+  },
+  run: ({ args }, { print }) => {
+    const { action, name } = args;
+    if (action !== "LIST" && name === undefined) {
+      throw new ArgumentError(`MACRO ${action} needs a macro name`);
+    }
+    if (action === "LIST" && name !== undefined) {
+      throw new ArgumentError(`unexpected argument '${name}'`);
+    }
+
+    switch (action) {
+      case "LIST": {
+        const names = macroStore.names();
+        if (names.length === 0) {
+          print("No macros defined. Start one with MACRO DEFINE <name>.", "system");
+          return;
+        }
+        const rows = names.map(macro => ({ macro, lines: (macroStore.get(macro) as string).split("\n").length }));
+        formatTable(["macro", "lines"], rows).forEach(line => print(line, "default"));
+        return names;
+      }
+      case "DEFINE":
+        macroStore.startRecording(name as string);
+        print(`Recording macro ${(name as string).toUpperCase()}: type its lines, then END (or CANCEL to discard).`, "system");
+        return;
+      case "SHOW": {
+        const source = macroStore.get(name as string);
+        if (source === undefined) {
+          print(`No macro named ${name}.`, "error");
+          return;
+        }
+        const lines = source.split("\n");
+        const width = String(lines.length).length;
+        lines.forEach((line, i) => print(`${String(i + 1).padStart(width)}  ${line}`, "default"));
+        return source;
+      }
+      case "DELETE":
+        if (!macroStore.remove(name as string)) {
+          print(`No macro named ${name}.`, "error");
+          return;
+        }
+        print(`Macro ${(name as string).toUpperCase()} deleted.`, "success");
+        return;
+    }
+  },
+});
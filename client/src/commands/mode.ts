@@ -0,0 +1,37 @@
+import { keyword } from "@/lib/commandParser";
+import { defineCommand } from "@/lib/commandRegistry";
+import { endpointStore } from "@/lib/connectivity";
+
+export default defineCommand({
+  name: "MODE",
+  category: "Configuration",
+  description: "Switch between WEB, ORD and PROXY mode.",
+  details:
+`MODE WEB : switches to WEB mode, with https://ordinals.com prefix for recursive endpoints
+           (testnet.ordinals.com or signet.ordinals.com on those networks; not available on regtest)
+MODE ORD : switches to ORD mode, without prefix (requires local ord server)
+MODE PROXY : switches to PROXY mode, with /api/ord prefix (served by this app's server)
+The modes are built-in endpoints; see ENDPOINT for adding your own.`,
+  args: {
+    mode: { schema: keyword("WEB", "ORD", "PROXY").optional(), label: "mode (WEB, ORD or PROXY)" },
+  },
+  run: ({ args }, { print, endpoint, setEndpoint, network }) => {
+    if (args.mode === undefined) {
+      print(`Current mode: ${endpoint.name}`, "success");
+      return;
+    }
+
+    const next = endpointStore.get(args.mode);
+    if (!next) {
+      throw new Error(`${args.mode} mode is not available on ${network}.`);
+    }
+    setEndpoint(next);
+    if (args.mode === "WEB") {
+      print(`Switched to WEB mode. Using ${next.url} prefix.`, "success");
+    } else if (args.mode === "PROXY") {
+      print("Switched to PROXY mode. Using /api/ord prefix (requests go through the server).", "success");
+    } else {
+      print("Switched to ORD mode. Using no prefix (requires local ord server).", "success");
+    }
+  },
+});
@@ -0,0 +1,49 @@
+import { defineCommand } from "@/lib/commandRegistry";
+import { describeUrl, endpointStore, networkKeyword } from "@/lib/connectivity";
+import { endpointFailover } from "@/lib/failover";
+
+const PROBE_TIMEOUT = 5000;
+
+export default defineCommand({
+  name: "NETWORK",
+  category: "Configuration",
+  description: "Show or switch the Bitcoin network.",
+  details:
+`NETWORK : shows the current network and its endpoints
+NETWORK <MAINNET|TESTNET|SIGNET|REGTEST> : switches network and picks a reachable endpoint on it
+WEB uses testnet.ordinals.com and signet.ordinals.com off mainnet, and is not available on regtest.
+ORD and PROXY serve whichever chain their ord indexes; it is detected from the genesis block.
+OCI commands work on mainnet only.`,
+  args: {
+    network: { schema: networkKeyword().optional(), label: "MAINNET, TESTNET, SIGNET or REGTEST" },
+  },
+  run: async ({ args }, { print, status, endpoint, setEndpoint, network, setNetwork }) => {
+    if (args.network === undefined) {
+      print(`Network: ${network}`, "success");
+      const endpoints = endpointStore.forNetwork();
+      if (endpoints.length === 0) {
+        print("No endpoints on this network.", "system");
+      }
+      endpoints.forEach(e => print(`${e.name === endpoint.name ? "*" : " "} ${e.name}  ${describeUrl(e.url)}`, "default"));
+      return;
+    }
+
+    const previous = network;
+    setNetwork(args.network);
+    status(`Probing ${args.network} endpoints...`);
+    const results = await endpointStore.probeAll(PROBE_TIMEOUT);
+    endpointFailover.recordProbes(results);
+
+    const chosen = endpointStore.choose(results);
+    if (!chosen) {
+      // Stay where we were rather than leave requests going to the wrong chain
+      setNetwork(previous);
+      throw new Error(
+        `No reachable endpoint on ${args.network}. Add one with ENDPOINT ADD <name> <url> --network ${args.network}`,
+      );
+    }
+
+    setEndpoint(chosen);
+    print(`Switched to ${args.network}. Using endpoint ${chosen.name} (${describeUrl(chosen.url)}).`, "success");
+  },
+});
@@ -0,0 +1,421 @@
+import { z } from "zod";
+import { ArgumentError, integer, keyword, parseValue } from "@/lib/commandParser";
+import { type CommandContext, defineCommand } from "@/lib/commandRegistry";
+import { mapWithConcurrency } from "@/lib/concurrency";
+import { downloadFile } from "@/lib/download";
+import { pickTextFile } from "@/lib/filePicker";
+import { identifier, parseInscriptionId, parseSatInput } from "@/lib/identifiers";
+import { DISTRICTS_PER_PAGE, MAX_DISTRICT, OCI_PAGES, OCI_SAT_INDICES, OciIndex, parseDistrictList } from "@/lib/oci";
+import { OciSandbox } from "@/lib/ociSandbox";
+import { formatTable, type TableRow, toCsv } from "@/lib/table";
+
+// Shared by every OCI invocation; decoded pages persist in IndexedDB across sessions
+const ociIndex = new OciIndex();
+
+// The on-chain module evaluated in a sandboxed frame, kept for the server it was loaded against
+let sandbox: OciSandbox | null = null;
+
+const satArg = { schema: identifier(parseSatInput), label: "sat" };
+const inscriptionArg = { schema: identifier(parseInscriptionId), label: "inscription id" };
+
+function printDistricts(print: CommandContext["print"], sat: number, districts: number[]) {
+  districts.forEach(district => {
+    const satIndex = ociIndex.getBitmapSatIndex(district);
+    const note = satIndex > 0 ? ` (inscription #${satIndex} on the sat)` : "";
+    print(`Sat ${sat} holds the bitmap for ${district}.bitmap${note}`, "success");
+  });
+}
+
+const BATCH_COLUMNS = ["district", "sat", "sat_index", "inscription_id"];
+
+// Resolve many districts at once; only the /r/sat/<sat>/at/<index> lookups hit the network
+async function resolveBatch(
+  districts: number[],
+  format: "TABLE" | "CSV" | "JSON",
+  concurrency: number,
+  { client, print, status }: CommandContext,
+): Promise<TableRow[]> {
+  print(`Resolving ${districts.length} districts (${concurrency} at a time)...`, "system");
+
+  const rows = await mapWithConcurrency(
+    districts,
+    concurrency,
+    async (district): Promise<TableRow> => {
+      const row: TableRow = { district, sat: null, sat_index: ociIndex.getBitmapSatIndex(district), inscription_id: null };
+      try {
+        row.sat = await ociIndex.getBitmapSat(client, district, print);
+        if (row.sat) {
+          row.inscription_id = (await client.getSatInscriptionAt(row.sat, row.sat_index as number)).id;
+        }
+      } catch (error) {
+        row.inscription_id = `error: ${error instanceof Error ? error.message : String(error)}`;
+      }
+      return row;
+    },
+    (done, total) => status(`Resolved ${done}/${total} districts (${Math.floor((done / total) * 100)}%)`),
+  );
+
+  const failed = rows.filter(row => !row.sat || !row.inscription_id || String(row.inscription_id).startsWith("error")).length;
+  const name = `oci-districts-${districts[0]}-${districts[districts.length - 1]}`;
+
+  if (format === "CSV") {
+    downloadFile(`${name}.csv`, toCsv(BATCH_COLUMNS, rows), "text/csv");
+    print(`Saved ${rows.length} rows to ${name}.csv`, "success");
+  } else if (format === "JSON") {
+    downloadFile(`${name}.json`, JSON.stringify(rows, null, 2), "application/json");
+    print(`Saved ${rows.length} rows to ${name}.json`, "success");
+  } else {
+    formatTable(BATCH_COLUMNS, rows).forEach(line => print(line, "default"));
+  }
+
+  if (failed > 0) {
+    print(`${failed} of ${rows.length} districts could not be fully resolved.`, "error");
+  }
+  return rows;
+}
+
+async function getSandbox({ client, print }: CommandContext): Promise<OciSandbox | null> {
+  if (sandbox && sandbox.baseUrl === client.baseUrl) {
+    return sandbox;
+  }
+  sandbox?.terminate();
+  sandbox = null;
+
+  if (!ociIndex.rawScript && !await ociIndex.loadScript(client, print)) {
+    return null;
+  }
+  print("Evaluating the OCI module in a sandboxed frame...", "system");
+  sandbox = await OciSandbox.create(ociIndex.rawScript!, client.baseUrl);
+  print(`Sandboxed module exports: ${sandbox.exports.join(", ") || "(none)"}`, "default");
+  return sandbox;
+}
+
+// Edge districts, every district with a non-zero sat index, and a random sample
+function verificationSample(size: number): number[] {
+  const districts = new Set<number>([0, 1, DISTRICTS_PER_PAGE - 1, DISTRICTS_PER_PAGE, MAX_DISTRICT]);
+  Object.keys(OCI_SAT_INDICES).map(Number).filter(d => d <= MAX_DISTRICT).forEach(d => districts.add(d));
+  const target = districts.size + size;
+  while (districts.size < target) {
+    districts.add(Math.floor(Math.random() * (MAX_DISTRICT + 1)));
+  }
+  return Array.from(districts).sort((a, b) => a - b);
+}
+
+// OCI VERIFY: compare the sandboxed on-chain module with the built-in implementation
+async function verify(sampleSize: number, ctx: CommandContext) {
+  const { client, print, status } = ctx;
+  const module = await getSandbox(ctx);
+  if (!module) {
+    return;
+  }
+  const missing = ["getBitmapSat", "getBitmapSatIndex"].filter(name => !module.exports.includes(name));
+  if (missing.length > 0) {
+    print(`The on-chain module does not export ${missing.join(", ")}; nothing to compare.`, "error");
+    return;
+  }
+
+  const districts = verificationSample(sampleSize);
+  const mismatches: string[] = [];
+
+  for (let i = 0; i < districts.length; i++) {
+    const district = districts[i];
+    status(`Verifying district ${district} (${i + 1}/${districts.length})...`);
+    try {
+      const [onChainSat, onChainIndex, builtInSat] = await Promise.all([
+        module.call<number | string | null>("getBitmapSat", district),
+        module.call<number | string | null>("getBitmapSatIndex", district),
+        ociIndex.getBitmapSat(client, district, print),
+      ]);
+      const builtInIndex = ociIndex.getBitmapSatIndex(district);
+
+      if (Number(onChainSat) !== builtInSat) {
+        mismatches.push(`${district}: sat ${onChainSat} on-chain, ${builtInSat} built-in`);
+      }
+      if (Number(onChainIndex ?? 0) !== builtInIndex) {
+        mismatches.push(`${district}: sat index ${onChainIndex} on-chain, ${builtInIndex} built-in`);
+      }
+    } catch (error) {
+      mismatches.push(`${district}: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }
+
+  if (mismatches.length === 0) {
+    print(`All ${districts.length} sampled districts match the on-chain module.`, "success");
+  } else {
+    print(`${mismatches.length} differences across ${districts.length} sampled districts:`, "error");
+    mismatches.forEach(line => print(line, "default"));
+  }
+}
+
+// OCI <district> --sandbox: resolve with the on-chain module's own functions
+async function lookupInSandbox(district: number, ctx: CommandContext) {
+  const { print } = ctx;
+  const module = await getSandbox(ctx);
+  if (!module) {
+    return;
+  }
+
+  print(`Resolving Bitcoin District #${district} with the sandboxed module...`, "default");
+  const sat = await module.call<number | string | null>("getBitmapSat", district);
+  print(`Bitcoin District #${district} corresponds to sat ${sat}`, "success");
+
+  if (module.exports.includes("getBitmapInscriptionId")) {
+    const inscriptionId = await module.call<string | null>("getBitmapInscriptionId", district);
+    print(`Inscription ID: ${inscriptionId ?? "(none)"}`, inscriptionId ? "success" : "error");
+  }
+}
+
+// OCI FIND SAT <sat> / OCI FIND INSCRIPTION <id>
+async function findDistrict(kind: "SAT" | "INSCRIPTION", value: string | undefined, { client, print }: CommandContext) {
+  if (!await ociIndex.buildReverseIndex(client, print)) {
+    print("Could not build the reverse index: some district pages failed to load.", "error");
+    return;
+  }
+
+  if (kind === "SAT") {
+    const sat = parseValue(satArg, value);
+    const districts = ociIndex.findDistrictsBySat(sat);
+    if (districts.length === 0) {
+      print(`Sat ${sat} is not a bitmap sat.`, "default");
+    } else {
+      printDistricts(print, sat, districts);
+    }
+    return;
+  }
+
+  const inscriptionId = parseValue(inscriptionArg, value);
+  print(`Looking up the sat of inscription ${inscriptionId}...`, "default");
+  const info = await client.getInscription(inscriptionId);
+  if (info.sat === null) {
+    print("The server did not report a sat for this inscription (is ord running with --index-sats?).", "error");
+    return;
+  }
+
+  const districts = ociIndex.findDistrictsBySat(info.sat);
+  if (districts.length === 0) {
+    print(`Inscription ${inscriptionId} is not a bitmap (sat ${info.sat} holds no district).`, "default");
+    return;
+  }
+
+  // A bitmap sat can carry other inscriptions too; only the one at the district's index counts
+  for (const district of districts) {
+    const { id } = await client.getSatInscriptionAt(info.sat, ociIndex.getBitmapSatIndex(district));
+    if (id === inscriptionId) {
+      print(`Inscription ${inscriptionId} is ${district}.bitmap`, "success");
+      return;
+    }
+  }
+
+  print(`Inscription ${inscriptionId} is not a bitmap, although its sat ${info.sat} carries one:`, "default");
+  printDistricts(print, info.sat, districts);
+}
+
+export default defineCommand({
+  name: "OCI",
+  category: "Bitcoin Districts Bitmap",
+  description: "On-Chain Index for Bitcoin Districts (0-839999).",
+  details:
+`OCI : Shows current OCI status
+OCI LOAD : Loads sat numbers for bitmap districts 0-839999
+OCI LOAD ALL : Downloads every district page and stores it for offline use
+OCI <district_number> : Resolves the specific district's sat number
+OCI <first>-<last> : Resolves a range of districts, e.g. OCI 800000-800099
+OCI <a>,<b>,... : Resolves a list of districts or ranges
+OCI --file : Resolves the districts listed in a local text file
+Batch results are shown as a table, or downloaded with --format csv or --format json;
+a single district given --format is shown the same way, as one row
+OCI FIND SAT <sat> : Finds the district whose bitmap is inscribed on a sat
+OCI FIND INSCRIPTION <inscription_id> : Finds the district an inscription is the bitmap for
+OCI VERIFY : Cross-checks the built-in lookup against the on-chain module, run in a sandbox
+OCI <district_number> --sandbox : Resolves the district with the on-chain module itself`,
+  args: {
+    district_number: {
+      schema: z.union([
+        keyword("LOAD", "FIND", "VERIFY"),
+        integer(0, MAX_DISTRICT),
+        z.string().regex(/^\d+(-\d+)?(,\d+(-\d+)?)*$/),
+      ]).optional(),
+      label: `district number (0-${MAX_DISTRICT}), range, LOAD, FIND or VERIFY`,
+      suggest: ["LOAD", "FIND", "VERIFY"],
+    },
+    scope: { schema: keyword("ALL", "SAT", "INSCRIPTION").optional(), label: "ALL, SAT or INSCRIPTION" },
+    value: { schema: z.string().optional(), label: "sat number or inscription id" },
+  },
+  flags: {
+    format: {
+      schema: keyword("TABLE", "CSV", "JSON").optional(),
+      label: "TABLE, CSV or JSON",
+      description: "output format for district results (default TABLE)",
+    },
+    concurrency: {
+      schema: integer(1, 16).optional(),
+      label: "1-16",
+      description: "parallel requests for ranges and lists (default 4)",
+    },
+    file: {
+      schema: z.boolean().default(false),
+      label: "file",
+      description: "read district numbers and ranges from a local text file",
+    },
+    verbose: {
+      schema: z.boolean().default(false),
+      label: "verbose",
+      alias: "v",
+      description: "show request and decoding details while loading district pages",
+    },
+    sandbox: {
+      schema: z.boolean().default(false),
+      label: "sandbox",
+      description: "resolve a district by running the on-chain OCI module in a sandboxed frame",
+    },
+    sample: {
+      schema: integer(1, 1000).optional(),
+      label: "1-1000",
+      description: "number of random districts OCI VERIFY checks (default 20)",
+    },
+  },
+  usage: "OCI [LOAD [ALL]|FIND SAT <sat>|FIND INSCRIPTION <inscription_id>|VERIFY|<district_number>|<first>-<last>] [--file] [--format TABLE|CSV|JSON]",
+  run: async ({ args, flags }, ctx) => {
+    const { client, print } = ctx;
+
+    // The districts index is a mainnet inscription
+    if (ctx.network !== "mainnet") {
+      throw new Error(`OCI is only available on mainnet (current network: ${ctx.network}).`);
+    }
+    const concurrency = flags.concurrency ?? 4;
+    ociIndex.verbose = flags.verbose;
+
+    if (flags.file) {
+      if (args.district_number !== undefined) {
+        throw new ArgumentError(`unexpected argument '${args.district_number}' with --file`);
+      }
+      const text = await pickTextFile();
+      if (text === null) {
+        print("No file selected.", "default");
+        return;
+      }
+      let districts: number[];
+      try {
+        districts = parseDistrictList(text);
+      } catch (error) {
+        throw new ArgumentError(error instanceof Error ? error.message : String(error));
+      }
+      if (districts.length === 0) {
+        print("The file contains no district numbers.", "error");
+        return;
+      }
+      return resolveBatch(districts, flags.format ?? "TABLE", concurrency, ctx);
+    }
+
+    if (args.district_number === "FIND") {
+      if (args.scope !== "SAT" && args.scope !== "INSCRIPTION") {
+        throw new ArgumentError(args.scope === undefined ? "missing SAT or INSCRIPTION" : `expected SAT or INSCRIPTION, got '${args.scope}'`);
+      }
+      await findDistrict(args.scope, args.value, ctx);
+      return;
+    }
+
+    // Only LOAD takes a second argument, and only ALL
+    const allowedScope = args.district_number === "LOAD" ? "ALL" : undefined;
+    const extra = args.scope !== allowedScope ? args.scope : args.value;
+    if (extra !== undefined) {
+      throw new ArgumentError(`unexpected argument '${extra}'`);
+    }
+
+    if (args.district_number === undefined) {
+      // No arguments provided, show OCI status
+      const loadedPages = await ociIndex.restoreAll();
+      if (ociIndex.rawScript || loadedPages > 0) {
+        print("OCI Status: Bitcoin Districts mapping ready.", "success");
+        print("Use OCI <district_number> to lookup the sat number for a specific district.", "default");
+        print(`${loadedPages} of ${OCI_PAGES.length} district pages are stored locally.`, "default");
+        if (loadedPages < OCI_PAGES.length) {
+          print("Missing pages are loaded on demand, or all at once with OCI LOAD ALL.", "default");
+        }
+      } else {
+        print("OCI Status: Bitcoin Districts mapping not initialized.", "default");
+        print("Use OCI LOAD to prepare the system, or OCI <district_number> to look up directly.", "default");
+      }
+      return;
+    }
+
+    if (args.district_number === "LOAD") {
+      if (ociIndex.rawScript) {
+        print("OCI module is already loaded.", "success");
+      } else if (!await ociIndex.loadScript(client, print)) {
+        return;
+      }
+
+      if (args.scope === "ALL") {
+        print(`Preparing all ${OCI_PAGES.length} district pages...`, "system");
+        const ready = await ociIndex.loadAllPages(client, print);
+        if (ready === OCI_PAGES.length) {
+          print("All districts are stored locally and resolve offline.", "success");
+        } else {
+          print(`${ready} of ${OCI_PAGES.length} pages are ready. Run OCI LOAD ALL again to retry the rest.`, "error");
+        }
+      }
+      return;
+    }
+
+    if (args.district_number === "VERIFY") {
+      await verify(flags.sample ?? 20, ctx);
+      return;
+    }
+
+    if (typeof args.district_number === "string") {
+      let districts: number[];
+      try {
+        districts = parseDistrictList(args.district_number);
+      } catch (error) {
+        throw new ArgumentError(error instanceof Error ? error.message : String(error));
+      }
+      return resolveBatch(districts, flags.format ?? "TABLE", concurrency, ctx);
+    }
+
+    const districtNumber = args.district_number;
+
+    if (flags.sandbox) {
+      if (flags.format !== undefined) {
+        throw new ArgumentError("--format can't be combined with --sandbox");
+      }
+      await lookupInSandbox(districtNumber, ctx);
+      return;
+    }
+
+    if (flags.format !== undefined) {
+      return resolveBatch([districtNumber], flags.format, concurrency, ctx);
+    }
+
+    print(`Resolving sat number for Bitcoin District #${districtNumber}...`, "default");
+
+    try {
+      const sat = await ociIndex.getBitmapSat(client, districtNumber, print);
+
+      if (!sat) {
+        print(`Could not resolve sat number for district ${districtNumber}.`, "error");
+        return;
+      }
+
+      const satIndex = ociIndex.getBitmapSatIndex(districtNumber);
+      print(`Bitcoin District #${districtNumber} corresponds to sat ${sat}`, "success");
+
+      if (satIndex > 0) {
+        print(`Note: This district's bitmap is inscription #${satIndex} on this sat`, "default");
+      }
+
+      // Try to get the inscription ID
+      print("Fetching inscription ID...", "default");
+      const inscriptionId = await ociIndex.getBitmapInscriptionId(client, districtNumber, print);
+
+      if (inscriptionId) {
+        print(`Inscription ID: ${inscriptionId}`, "success");
+        print(`Explore at: ${client.url(`/inscription/${inscriptionId}`)}`, "default");
+      } else {
+        print("Could not fetch inscription ID.", "error");
+      }
+    } catch (error) {
+      print(`Error processing district: ${error instanceof Error ? error.message : String(error)}`, "error");
+    }
+  },
+});
@@ -0,0 +1,111 @@
+import { z } from "zod";
+import { ArgumentError } from "@/lib/commandParser";
+import { type CommandContext, defineCommand } from "@/lib/commandRegistry";
+import { pickTextFile } from "@/lib/filePicker";
+import { IdentifierError, parseInscriptionId } from "@/lib/identifiers";
+import { macroStore, parseScript, runScript, ScriptError } from "@/lib/script";
+
+const FETCH_TIMEOUT = 15_000;
+
+interface LoadedScript {
+  label: string;
+  source: string;
+}
+
+function isInscriptionId(value: string): boolean {
+  try {
+    parseInscriptionId(value);
+    return true;
+  } catch (error) {
+    if (error instanceof IdentifierError) return false;
+    throw error;
+  }
+}
+
+// A saved macro, an inscription whose content is the script, or a URL
+async function loadScript(target: string, { client, status }: CommandContext): Promise<LoadedScript> {
+  const macro = macroStore.get(target);
+  if (macro !== undefined) {
+    return { label: `Macro ${target.toUpperCase()}`, source: macro };
+  }
+  if (isInscriptionId(target)) {
+    status(`Fetching script inscription ${target}...`);
+    return { label: `Inscription ${target}`, source: await client.getText(`/content/${parseInscriptionId(target)}`) };
+  }
+  if (target.startsWith("/")) {
+    status(`Fetching script ${target}...`);
+    return { label: target, source: await client.getText(target) };
+  }
+  if (/^https?:\/\//i.test(target)) {
+    status(`Fetching script ${target}...`);
+    const response = await fetch(target, { signal: AbortSignal.timeout(FETCH_TIMEOUT) });
+    if (!response.ok) {
+      throw new Error(`Could not fetch ${target}: status ${response.status}`);
+    }
+    return { label: target, source: await response.text() };
+  }
+  throw new ArgumentError(`no macro named '${target}', and it isn't an inscription id or URL`);
+}
+
+export default defineCommand({
+  name: "RUN",
+  category: "Scripting",
+  description: "Run a macro or script.",
+  usage: "RUN <macro|inscription_id|url> [args...] [--dry-run] | RUN --file [args...] [--dry-run]",
+  details:
+`RUN <macro> [args...] : runs a macro saved with MACRO DEFINE
+RUN <inscription_id> [args...] : runs a script inscribed as text
+RUN <url> [args...] : runs a script fetched from a URL (e.g. https://ordinals.com/content/<id>)
+RUN --file [args...] : runs a script from a local text file
+Scripts hold one command per line, # comments, FOR <x> IN 1..10 | <values> | $_.ids ... END,
+IF <a> == <b> ... ELSE ... END (also !=, <, <=, >, >=, CONTAINS, NOT <value>) and MACRO DEFINE ... END.
+Inside a script $1..$n are its args. The script stops at the first error, naming the line.
+--dry-run prints the expanded commands without running them.`,
+  args: {
+    words: { schema: z.array(z.string()), label: "script and args", rest: true },
+  },
+  flags: {
+    file: { schema: z.boolean().default(false), label: "file", description: "read the script from a local text file" },
+    dryRun: { schema: z.boolean().default(false), label: "dry run", description: "print the expanded commands instead of running them" },
+  },
+  run: async ({ args, flags }, ctx) => {
+    const { print, status } = ctx;
+    let script: LoadedScript;
+    let params: string[];
+
+    if (flags.file) {
+      status("Choose a script file...");
+      const source = await pickTextFile(".txt,.termina,text/plain");
+      status(null);
+      if (source === null) {
+        print("No file selected.", "system");
+        return;
+      }
+      script = { label: "Script file", source };
+      params = args.words;
+    } else {
+      if (args.words.length === 0) {
+        throw new ArgumentError("missing macro name, inscription id or URL");
+      }
+      script = await loadScript(args.words[0], ctx);
+      params = args.words.slice(1);
+      status(null);
+    }
+
+    try {
+      const nodes = parseScript(script.source);
+      if (flags.dryRun) {
+        print(`Dry run of ${script.label}:`, "system");
+      }
+      await runScript(nodes, ctx, { params, dryRun: flags.dryRun });
+    } catch (error) {
+      if (error instanceof ScriptError) {
+        throw new Error(`${script.label}, ${error.message}`);
+      }
+      throw error;
+    }
+    if (!flags.dryRun) {
+      print(`${script.label} finished.`, "success");
+    }
+  },
+});
@@ -0,0 +1,118 @@
+import { z } from "zod";
+import { ArgumentError, integer, keyword } from "@/lib/commandParser";
+import { type CommandContext, defineCommand } from "@/lib/commandRegistry";
+import { mapWithConcurrency } from "@/lib/concurrency";
+import { identifier, parseSatInput } from "@/lib/identifiers";
+import type { InscriptionInfo } from "@/lib/ordClient";
+import { collectPages, pageLimitWarning } from "@/lib/pagination";
+import { formatTable, type TableRow } from "@/lib/table";
+
+// INSCRIPTIONS: the sat's inscriptions as a table, one page by default or every page with --all
+async function showInscriptions(sat: number, page: number | undefined, all: boolean, { client, print, status }: CommandContext): Promise<TableRow[]> {
+  const pages = await collectPages(p => client.getSat(sat, p), {
+    from: page ?? 0,
+    all,
+    onPage: (_page, fetched) => {
+      if (all) status(`Fetched ${fetched} page${fetched === 1 ? "" : "s"} of inscriptions...`);
+    },
+  });
+  const ids = pages.flatMap(p => p.ids);
+  const last = pages[pages.length - 1];
+  if (ids.length === 0) {
+    print(`No inscriptions on sat ${sat}.`, "system");
+    return [];
+  }
+
+  const inscriptions = await mapWithConcurrency(ids, 4, async id => {
+    try {
+      return await client.getInscription(id);
+    } catch {
+      return null;
+    }
+  }, (done, total) => status(`Fetching inscriptions ${done}/${total}...`));
+
+  const rows: TableRow[] = ids.map((id, i) => ({
+    number: inscriptions[i]?.number ?? null,
+    id,
+    content_type: inscriptions[i]?.content_type ?? null,
+    height: inscriptions[i]?.height ?? null,
+  }));
+  formatTable(["number", "id", "content_type", "height"], rows).forEach(line => print(line, "default"));
+  print(`${rows.length} inscription${rows.length === 1 ? "" : "s"} on sat ${sat}`, "success");
+  const warning = pageLimitWarning(pages, all);
+  if (warning) {
+    print(warning, "system");
+  } else if (last.more && !all) {
+    print(`More available: add --page ${last.page + 1}, or --all for every page.`, "system");
+  }
+  return rows;
+}
+
+// AT, FIRST and LAST: /r/sat/<sat>/at/<index>, where -1 is the latest inscription
+async function showInscriptionAt(sat: number, index: number, { client, print }: CommandContext): Promise<InscriptionInfo | null> {
+  const { id } = await client.getSatInscriptionAt(sat, index);
+  if (id === null) {
+    print(`No inscription at index ${index} on sat ${sat}.`, "system");
+    return null;
+  }
+  print(`Inscription ${index} on sat ${sat}: ${id}`, "success");
+  const info = await client.getInscription(id);
+  print(JSON.stringify(info, null, 2), "json");
+  return info;
+}
+
+export default defineCommand({
+  name: "SAT",
+  category: "Ordinals Recursive Endpoints",
+  description: "Get information about specific satoshis.",
+  details:
+`SAT <sat> : Check inscriptions on a specific SAT
+SAT <sat> INSCRIPTIONS : Table of the sat's inscriptions; takes --page N or --all
+SAT <sat> AT <index> : Inscription at index on the sat; negative indices count back from the latest (-1)
+SAT <sat> FIRST : First inscription on the sat
+SAT <sat> LAST : Latest inscription on the sat
+The sat can be a number, name (nvtdijuwxlp), degree (0°0′0″0‴), decimal (0.0) or percentile (0%).`,
+  usage: "SAT <sat> [INSCRIPTIONS [--page N|--all]|AT <index>|FIRST|LAST]",
+  args: {
+    sat: { schema: identifier(parseSatInput), label: "sat" },
+    view: { schema: keyword("INSCRIPTIONS", "AT", "FIRST", "LAST").optional(), label: "INSCRIPTIONS, AT, FIRST or LAST" },
+    index: { schema: integer().optional(), label: "inscription index" },
+  },
+  flags: {
+    page: { schema: integer(0).optional(), label: "page number", description: "INSCRIPTIONS page to show (from 0)" },
+    all: { schema: z.boolean().default(false), label: "all", description: "follow INSCRIPTIONS pages until the last" },
+  },
+  run: async ({ args, flags }, ctx) => {
+    const { client, print } = ctx;
+    const { sat, view } = args;
+
+    if ((flags.page !== undefined || flags.all) && view !== "INSCRIPTIONS") {
+      throw new ArgumentError("--page and --all only apply to INSCRIPTIONS");
+    }
+    if (flags.page !== undefined && flags.all) {
+      throw new ArgumentError("use either --page or --all");
+    }
+    if (view === "AT" && args.index === undefined) {
+      throw new ArgumentError("AT needs an inscription index, e.g. SAT <sat> AT 0 or AT -1 for the latest");
+    }
+    if (view !== "AT" && args.index !== undefined) {
+      throw new ArgumentError(`unexpected argument '${args.index}'`);
+    }
+
+    switch (view) {
+      case undefined: {
+        const data = await client.getSat(sat);
+        print(JSON.stringify(data, null, 2), "json");
+        return data;
+      }
+      case "INSCRIPTIONS":
+        return showInscriptions(sat, flags.page, flags.all, ctx);
+      case "AT":
+        return showInscriptionAt(sat, args.index as number, ctx);
+      case "FIRST":
+        return showInscriptionAt(sat, 0, ctx);
+      case "LAST":
+        return showInscriptionAt(sat, -1, ctx);
+    }
+  },
+});
@@ -0,0 +1,53 @@
+import { z } from "zod";
+import { defineCommand } from "@/lib/commandRegistry";
+import { identifier, parseSatInput } from "@/lib/identifiers";
+import { describeSat, satNotation } from "@/lib/satMath";
+
+export default defineCommand({
+  name: "SATCALC",
+  category: "Ordinals Recursive Endpoints",
+  description: "Convert a sat between notations and compute its rarity, offline.",
+  details:
+`SATCALC <sat> : Number, name, degree, decimal, percentile, rarity, epoch, block height and offset
+The sat can be a number, name (nvtdijuwxlp), degree (0°0′0″0‴), decimal (0.0) or percentile (0%).
+Everything is computed locally. When the server answers, SATCALC also checks that the sat
+has been mined and that the server reads the input as the same sat; --offline skips this.`,
+  args: {
+    sat: { schema: identifier(parseSatInput), label: "sat" },
+  },
+  flags: {
+    offline: { schema: z.boolean().default(false), label: "offline", description: "skip the server cross-check" },
+  },
+  run: async ({ args, flags, positionals }, { client, print, status }) => {
+    const description = describeSat(args.sat);
+    print(JSON.stringify(description, null, 2), "json");
+    if (flags.offline) return description;
+
+    status("Cross-checking with the server...");
+    try {
+      const [tip, byNumber] = await Promise.all([client.getBlockHeight(), client.getSat(args.sat)]);
+      if (tip !== null) {
+        print(description.height <= tip
+          ? `Mined in block ${description.height} (tip is ${tip}).`
+          : `Not mined yet: block ${description.height} is ${description.height - tip} past the tip (${tip}).`, "system");
+      }
+      print(`Server lists ${byNumber.ids.length}${byNumber.more ? "+" : ""} inscription${byNumber.ids.length === 1 ? "" : "s"} on sat ${args.sat}.`, "system");
+
+      // Names, degrees and decimals are resolved by the server too; its inscriptions should match
+      const input = positionals[0].trim();
+      if (satNotation(input) !== "number" && satNotation(input) !== "percentile") {
+        const byInput = await client.getSat(encodeURIComponent(input));
+        if (byInput.ids.join() !== byNumber.ids.join()) {
+          print(`Server disagrees: ${input} lists different inscriptions than sat ${args.sat}.`, "error");
+        } else if (byNumber.ids.length === 0) {
+          print(`Server accepts ${input}; neither it nor sat ${args.sat} has inscriptions to compare.`, "system");
+        } else {
+          print(`Server agrees: ${input} is sat ${args.sat}.`, "success");
+        }
+      }
+    } catch (error) {
+      print(`Server cross-check skipped: ${error instanceof Error ? error.message : String(error)}`, "system");
+    }
+    return description;
+  },
+});
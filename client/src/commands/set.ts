@@ -0,0 +1,59 @@
+import { z } from "zod";
+import { defineCommand } from "@/lib/commandRegistry";
+import { formatTable } from "@/lib/table";
+import { isVariableName, sessionVariables } from "@/lib/variables";
+
+// Long results are cut down to one line in the listing
+function preview(value: unknown): string {
+  const text = typeof value === "string" ? value : JSON.stringify(value);
+  return text.length > 80 ? `${text.slice(0, 77)}...` : text;
+}
+
+export default defineCommand({
+  name: "SET",
+  category: "Configuration",
+  description: "Set a session variable, or list variables and results.",
+  usage: "SET [<name> [<value...>]]",
+  details:
+`SET : lists variables and the numbered results of earlier commands
+SET <name> : shows the value of $name
+SET <name> <value> : sets $name for the rest of the session
+$name, $_ (the last result) and $1, $2, ... (results in order) are replaced in any command.
+Inside a macro or script, $1, $2, ... are its arguments instead.
+Add a path to use part of a JSON result: INSCRIPTION <id> INFO, then SAT $_.sat
+Single quotes or a backslash (\\$) keep a $ as it is.`,
+  args: {
+    name: { schema: z.string().refine(isVariableName, "letters, digits and _, starting with a letter").optional(), label: "variable name" },
+    value: { schema: z.array(z.string()), label: "value", rest: true },
+  },
+  run: ({ args }, { print }) => {
+    if (args.name === undefined) {
+      const variables = sessionVariables.variables();
+      const results = sessionVariables.listResults();
+      if (variables.length === 0 && results.length === 0) {
+        print("No variables or results yet.", "system");
+        return;
+      }
+      const rows = [
+        ...variables.map(([name, value]) => ({ name: `$${name}`, value: preview(value) })),
+        ...results.map(({ number, value }) => ({ name: `$${number}`, value: preview(value) })),
+      ];
+      formatTable(["name", "value"], rows).forEach(line => print(line, "default"));
+      return;
+    }
+
+    if (args.value.length === 0) {
+      const value = sessionVariables.get(args.name);
+      if (value === undefined) {
+        print(`$${args.name} is not set.`, "error");
+        return;
+      }
+      print(value, "default");
+      return value;
+    }
+
+    const value = args.value.join(" ");
+    sessionVariables.set(args.name, value);
+    print(`$${args.name} = ${preview(value)}`, "success");
+  },
+});
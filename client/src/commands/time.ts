@@ -0,0 +1,30 @@
+import { keyword } from "@/lib/commandParser";
+import { defineCommand } from "@/lib/commandRegistry";
+
+export default defineCommand({
+  name: "TIME",
+  category: "Configuration",
+  description: "Display current system time.",
+  usage: "TIME [UNIX|CURRENT]",
+  details:
+`TIME : shows current system time in both Unix and local format
+TIME UNIX : shows only Unix timestamp 
+TIME CURRENT : shows only local time format`,
+  args: {
+    format: { schema: keyword("UNIX", "CURRENT", "LOCAL").optional(), label: "time format (UNIX or CURRENT)" },
+  },
+  run: ({ args }, { print }) => {
+    const now = new Date();
+    const unixTime = Math.floor(now.getTime() / 1000);
+    const localTime = now.toLocaleString();
+
+    if (args.format === "UNIX") {
+      print(`Current system time (Unix): ${unixTime}`, "success");
+    } else if (args.format === "CURRENT" || args.format === "LOCAL") {
+      print(`Current system time (Local): ${localTime}`, "success");
+    } else {
+      // Default: show both formats
+      print(`Current system time: ${unixTime} (${localTime})`, "success");
+    }
+  },
+});
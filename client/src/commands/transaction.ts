@@ -0,0 +1,17 @@
+import { defineCommand } from "@/lib/commandRegistry";
+import { identifier, parseTxid } from "@/lib/identifiers";
+
+export default defineCommand({
+  name: "TRANSACTION",
+  category: "Ordinals Recursive Endpoints",
+  description: "Query transaction data.",
+  details: `TRANSACTION <txid> : Get transaction details`,
+  args: {
+    txid: { schema: identifier(parseTxid), label: "transaction id (64 hex characters)" },
+  },
+  run: async ({ args }, { client, print }) => {
+    const data = await client.getTransaction(args.txid);
+    print(JSON.stringify(data, null, 2), "json");
+    return data;
+  },
+});
@@ -0,0 +1,39 @@
+import { defineCommand } from "@/lib/commandRegistry";
+import { identifier, parseOutpoint } from "@/lib/identifiers";
+import { OrdRequestError } from "@/lib/ordClient";
+
+export default defineCommand({
+  name: "UTXO",
+  category: "Ordinals Recursive Endpoints",
+  description: "View UTXO information.",
+  details: `UTXO <txid:vout> : Get information about a specific UTXO in the format txid:vout`,
+  args: {
+    "txid:vout": { schema: identifier(parseOutpoint), label: "outpoint in the format txid:vout" },
+  },
+  run: async ({ args }, { client, print }) => {
+    const outpoint = args["txid:vout"];
+    print(`Fetching UTXO information from: ${client.url(`/r/utxo/${outpoint}`)}`, "default");
+
+    try {
+      const data = await client.getUtxo(outpoint);
+      if (data === null) {
+        print("No information found for this UTXO", "default");
+        return;
+      }
+
+      print(JSON.stringify(data, null, 2), "json");
+      return data;
+    } catch (error) {
+      if (error instanceof OrdRequestError) {
+        print(`Error: ${error.message}`, "error");
+        if (error.status === 404) {
+          print("UTXO not found", "error");
+        }
+      } else if (error instanceof SyntaxError) {
+        print(`Could not parse response as JSON: ${error.message}`, "error");
+      } else {
+        throw error;
+      }
+    }
+  },
+});
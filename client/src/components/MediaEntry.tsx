@@ -0,0 +1,58 @@
+import type { MediaPreview } from "@/lib/console";
+
+// Inline rendering of inscription content in the console.
+// HTML and SVG run in a sandboxed iframe without same-origin access, so
+// inscription scripts can't reach the terminal or its storage.
+export default function MediaEntry({ media }: { media: MediaPreview }) {
+  let body: React.ReactNode;
+
+  switch (media.kind) {
+    case "image":
+      body = (
+        <img
+          src={media.url}
+          alt={media.url}
+          className="max-h-64 max-w-full border border-[#333333] bg-[#2A2A2A]"
+          style={{ imageRendering: "pixelated" }}
+        />
+      );
+      break;
+    case "html":
+      body = (
+        <iframe
+          src={media.url}
+          title={media.url}
+          sandbox="allow-scripts"
+          loading="lazy"
+          className="w-96 h-96 max-w-full border border-[#333333] bg-white"
+        />
+      );
+      break;
+    case "audio":
+      body = <audio src={media.url} controls preload="metadata" />;
+      break;
+    case "video":
+      body = <video src={media.url} controls preload="metadata" className="max-h-64 max-w-full" />;
+      break;
+    case "text":
+    case "json":
+      body = (
+        <pre className="whitespace-pre-wrap break-all text-[#E0E0E0] border-l-2 border-[#333333] pl-3">
+          {media.text}
+          {media.truncated && <span className="text-[#888888]">{"\n"}… truncated, open the link for the full content</span>}
+        </pre>
+      );
+      break;
+    default:
+      body = <span className="text-[#888888]">No inline preview for {media.contentType ?? "unknown content type"}</span>;
+  }
+
+  return (
+    <div className="flex flex-col gap-1">
+      {body}
+      <a href={media.url} target="_blank" rel="noreferrer" className="text-[#888888] underline">
+        {media.contentType ?? "unknown"} · {media.url}
+      </a>
+    </div>
+  );
+}
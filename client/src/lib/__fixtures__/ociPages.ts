@@ -0,0 +1,53 @@
+import { expectedEntryCount } from "../ociDecoder";
+
+// Fixture pages in the three encodings the OCI pages were inscribed in. The
+// content is synthetic but deterministic: the sorted sats climb by uneven
+// steps and are assigned to district offsets in a scrambled order, as on-chain.
+
+export interface OciPageFixture {
+  page: number;
+  deltas: number[];
+  indices: number[];
+  // sats[offset] as the decoder should reconstruct it
+  sats: number[];
+}
+
+export function buildPageFixture(page: number): OciPageFixture {
+  const count = expectedEntryCount(page);
+  const deltas: number[] = [];
+  const indices: number[] = [];
+  const sats: number[] = new Array(count).fill(0);
+  let sat = 1_000_000_000 * (page + 1);
+
+  for (let i = 0; i < count; i++) {
+    const delta = i === 0 ? sat : 5 + (i % 7) * 1_000;
+    sat = i === 0 ? sat : sat + delta;
+    // 7919 is prime and coprime with every page size, so this is a permutation
+    const offset = (i * 7919) % count;
+    deltas.push(delta);
+    indices.push(offset);
+    sats[offset] = sat;
+  }
+  return { page, deltas, indices, sats };
+}
+
+// Pages 0-1: a JSON [[deltas], [indices]] document
+export function nestedJsonText(fixture: OciPageFixture): string {
+  return JSON.stringify([fixture.deltas, fixture.indices]);
+}
+
+// The same document wrapped in a JSON string, as one of pages 0-1 is
+export function stringWrappedJsonText(fixture: OciPageFixture): string {
+  return JSON.stringify(nestedJsonText(fixture));
+}
+
+// Pages 2-3: the deltas and then the indices as one bare comma-separated list
+export function flatListText(fixture: OciPageFixture): string {
+  return [...fixture.deltas, ...fixture.indices].join(",");
+}
+
+// Pages 4-8: JSON arrays with literal "\n" escapes and indentation between values
+export function escapedJsonText(fixture: OciPageFixture): string {
+  const list = (values: number[]) => `[\\n  ${values.join(",\\n  ")}\\n]`;
+  return `[${list(fixture.deltas)},${list(fixture.indices)}]`;
+}
@@ -0,0 +1,136 @@
+import { z } from "zod";
+import { describe, expect, it } from "vitest";
+import {
+  ArgumentError,
+  formatFlagHelp,
+  formatUsage,
+  integer,
+  keyword,
+  parseArguments,
+  parseValue,
+  tokenize,
+} from "./commandParser";
+
+const args = {
+  action: { schema: keyword("LIST", "SHOW").optional(), label: "LIST or SHOW" },
+  count: { schema: integer(1, 100).optional(), label: "count" },
+};
+
+const flags = {
+  page: { schema: integer(0).optional(), label: "page number", alias: "p", description: "fetch a single page" },
+  all: { schema: z.boolean().default(false), label: "all", alias: "a", description: "fetch every page" },
+  verbose: { schema: z.boolean().default(false), label: "verbose", alias: "v" },
+  outputFormat: { schema: keyword("TABLE", "JSON").default("TABLE"), label: "TABLE or JSON" },
+};
+
+function parse(line: string) {
+  return parseArguments(tokenize(line), args, flags);
+}
+
+describe("tokenize", () => {
+  it("splits on any whitespace", () => {
+    expect(tokenize("  BLOCK   840000\tINFO ")).toEqual(["BLOCK", "840000", "INFO"]);
+    expect(tokenize("")).toEqual([]);
+  });
+
+  it("keeps quoted text together", () => {
+    expect(tokenize(`SET name "two words" 'and more'`)).toEqual(["SET", "name", "two words", "and more"]);
+    expect(tokenize(`a"b c"d`)).toEqual(["ab cd"]);
+    expect(tokenize(`""`)).toEqual([""]);
+  });
+
+  it("applies backslash escapes outside single quotes only", () => {
+    expect(tokenize(String.raw`one\ word "say \"hi\""`)).toEqual(["one word", `say "hi"`]);
+    expect(tokenize(String.raw`'no \escapes'`)).toEqual([String.raw`no \escapes`]);
+  });
+
+  it("rejects unterminated quotes and a trailing backslash", () => {
+    expect(() => tokenize(`"open`)).toThrow("unterminated double quote");
+    expect(() => tokenize(`'open`)).toThrow("unterminated single quote");
+    expect(() => tokenize("end\\")).toThrow("trailing backslash");
+  });
+});
+
+describe("parseArguments", () => {
+  it("validates positionals in order", () => {
+    expect(parse("show 5").args).toEqual({ action: "SHOW", count: 5 });
+    expect(parse("").args).toEqual({ action: undefined, count: undefined });
+  });
+
+  it("reads long, short, bundled and inline flags", () => {
+    expect(parse("--page 2 --all").flags).toMatchObject({ page: 2, all: true, verbose: false });
+    expect(parse("-p 3").flags.page).toBe(3);
+    expect(parse("-av").flags).toMatchObject({ all: true, verbose: true });
+    expect(parse("--page=4 --all=false").flags).toMatchObject({ page: 4, all: false });
+    expect(parse("--output-format json").flags.outputFormat).toBe("JSON");
+  });
+
+  it("applies defaults for flags that were not given", () => {
+    expect(parse("").flags).toEqual({ page: undefined, all: false, verbose: false, outputFormat: "TABLE" });
+  });
+
+  it("treats negative numbers and everything after -- as positionals", () => {
+    const parsed = parseArguments(["-5", "--", "--all"], {
+      values: { schema: z.array(z.string()), label: "values", rest: true },
+    }, flags);
+    expect(parsed.args.values).toEqual(["-5", "--all"]);
+    expect(parsed.flags.all).toBe(false);
+  });
+
+  it("collects the remaining positionals into a rest argument", () => {
+    const parsed = parseArguments(["a", "b", "c"], {
+      first: { schema: z.string(), label: "first" },
+      rest: { schema: z.array(z.string()), label: "rest", rest: true },
+    }, undefined);
+    expect(parsed.args).toEqual({ first: "a", rest: ["b", "c"] });
+    expect(parsed.positionals).toEqual(["a", "b", "c"]);
+  });
+
+  it("reports a missing value when an option is followed by another option", () => {
+    expect(() => parse("--page --all")).toThrow("option --page expects page number");
+    expect(() => parse("--page")).toThrow("option --page expects page number");
+    expect(() => parse("-pa 2")).toThrow("option --page expects page number");
+  });
+
+  it("rejects unknown options, values for boolean flags and extra arguments", () => {
+    expect(() => parse("--nope")).toThrow("unknown option '--nope'");
+    expect(() => parse("-x")).toThrow("unknown option '-x'");
+    expect(() => parse("--all=yes")).toThrow("option --all does not take a value");
+    expect(() => parse("list 5 extra")).toThrow("unexpected argument 'extra'");
+  });
+
+  it("turns schema failures into ArgumentErrors naming the label", () => {
+    expect(() => parse("delete")).toThrow(ArgumentError);
+    expect(() => parse("delete")).toThrow("expected LIST or SHOW, got 'delete'");
+    expect(() => parse("list 101")).toThrow("expected count, got '101'");
+    expect(() => parse("--page x")).toThrow("expected page number, got 'x'");
+  });
+});
+
+describe("parseValue", () => {
+  it("reports missing required values", () => {
+    expect(() => parseValue({ schema: z.string(), label: "inscription id" }, undefined)).toThrow("missing inscription id");
+  });
+
+  it("shows rest values joined in errors", () => {
+    const spec = { schema: z.array(z.string()).min(3), label: "words" };
+    expect(() => parseValue(spec, ["a", "b"])).toThrow("expected words, got 'a b'");
+  });
+});
+
+describe("usage and help", () => {
+  it("formats a usage line from the specs", () => {
+    expect(formatUsage("THING", args, flags)).toBe(
+      "THING [LIST|SHOW] [<count>] [--page <page number>] [--all] [--verbose] [--output-format <TABLE or JSON>]",
+    );
+  });
+
+  it("formats one help line per flag", () => {
+    expect(formatFlagHelp(flags)).toEqual([
+      "--page, -p <page number> : fetch a single page",
+      "--all, -a : fetch every page",
+      "--verbose, -v",
+      "--output-format <TABLE or JSON>",
+    ]);
+  });
+});
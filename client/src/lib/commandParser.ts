@@ -0,0 +1,272 @@
+import { z } from "zod";
+
+// Shell-style parsing for terminal input: tokenizing with quotes and escapes,
+// --flag/-f options, and validation of positionals and flags against zod schemas.
+
+export class ArgumentError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "ArgumentError";
+  }
+}
+
+export interface ArgSpec<S extends z.ZodTypeAny = z.ZodTypeAny> {
+  schema: S;
+  // Human-readable name used in errors: "expected <label>, got 'xyz'"
+  label: string;
+  // Collect every remaining positional; the schema then receives a string[]
+  rest?: boolean;
+  // Keywords to offer in Tab completion when the schema accepts free-form values too
+  suggest?: string[];
+}
+
+export interface FlagSpec<S extends z.ZodTypeAny = z.ZodTypeAny> {
+  schema: S;
+  label: string;
+  alias?: string;
+  description?: string;
+}
+
+export type ArgSpecs = Record<string, ArgSpec>;
+export type FlagSpecs = Record<string, FlagSpec>;
+
+export type ParsedArgs<A extends ArgSpecs> = { [K in keyof A]: z.output<A[K]["schema"]> };
+export type ParsedFlags<F extends FlagSpecs> = { [K in keyof F]: z.output<F[K]["schema"]> };
+
+// Case-insensitive keyword, normalized to upper case
+export function keyword<T extends string>(...values: [T, ...T[]]) {
+  return z.preprocess(
+    value => (typeof value === "string" ? value.toUpperCase() : value),
+    z.enum(values),
+  );
+}
+
+// Decimal integer, optionally bounded
+export function integer(min?: number, max?: number) {
+  let schema = z.number().int();
+  if (min !== undefined) schema = schema.min(min);
+  if (max !== undefined) schema = schema.max(max);
+  return z.string().regex(/^-?\d+$/).transform(Number).pipe(schema);
+}
+
+// Split a command line into words. Supports "double" and 'single' quotes,
+// and backslash escapes outside single quotes.
+export function tokenize(line: string): string[] {
+  const tokens: string[] = [];
+  let current = "";
+  let inToken = false;
+  let quote: '"' | "'" | null = null;
+
+  for (let i = 0; i < line.length; i++) {
+    const char = line[i];
+
+    if (quote === "'") {
+      if (char === "'") {
+        quote = null;
+      } else {
+        current += char;
+      }
+    } else if (char === "\\") {
+      if (i + 1 >= line.length) {
+        throw new ArgumentError("trailing backslash");
+      }
+      current += line[++i];
+      inToken = true;
+    } else if (quote === '"') {
+      if (char === '"') {
+        quote = null;
+      } else {
+        current += char;
+      }
+    } else if (char === '"' || char === "'") {
+      quote = char;
+      inToken = true;
+    } else if (/\s/.test(char)) {
+      if (inToken) {
+        tokens.push(current);
+        current = "";
+        inToken = false;
+      }
+    } else {
+      current += char;
+      inToken = true;
+    }
+  }
+
+  if (quote) {
+    throw new ArgumentError(`unterminated ${quote === '"' ? "double" : "single"} quote`);
+  }
+  if (inToken) {
+    tokens.push(current);
+  }
+  return tokens;
+}
+
+// Strip optional/default/effects wrappers to find the schema that describes the value
+function innerSchema(schema: z.ZodTypeAny): z.ZodTypeAny {
+  if (schema instanceof z.ZodOptional || schema instanceof z.ZodNullable) {
+    return innerSchema(schema.unwrap());
+  }
+  if (schema instanceof z.ZodDefault) {
+    return innerSchema(schema.removeDefault());
+  }
+  if (schema instanceof z.ZodEffects) {
+    return innerSchema(schema.innerType());
+  }
+  return schema;
+}
+
+export function isBooleanFlag(spec: FlagSpec): boolean {
+  return innerSchema(spec.schema) instanceof z.ZodBoolean;
+}
+
+// The values a keyword() schema accepts, or null for free-form values
+export function keywordChoices(schema: z.ZodTypeAny): string[] | null {
+  const inner = innerSchema(schema);
+  return inner instanceof z.ZodEnum ? (inner.options as string[]) : null;
+}
+
+// Validate a single raw value against a spec
+export function parseValue<S extends z.ZodTypeAny>(spec: ArgSpec<S> | FlagSpec<S>, raw: unknown): z.output<S> {
+  const result = spec.schema.safeParse(raw);
+  if (!result.success) {
+    if (raw === undefined) {
+      throw new ArgumentError(`missing ${spec.label}`);
+    }
+    const shown = Array.isArray(raw) ? raw.join(" ") : String(raw);
+    // Schemas built with identifier() explain exactly what is wrong
+    const custom = result.error.issues.find(issue => issue.code === z.ZodIssueCode.custom);
+    if (custom) {
+      throw new ArgumentError(`invalid ${spec.label} '${shown}': ${custom.message}`);
+    }
+    throw new ArgumentError(`expected ${spec.label}, got '${shown}'`);
+  }
+  return result.data;
+}
+
+export function flagName(key: string): string {
+  return key.replace(/[A-Z]/g, c => `-${c.toLowerCase()}`);
+}
+
+export interface ParsedInput<A extends ArgSpecs, F extends FlagSpecs> {
+  args: ParsedArgs<A>;
+  flags: ParsedFlags<F>;
+  // Positionals as typed, before validation
+  positionals: string[];
+}
+
+// Negative numbers and a lone - are values, not options
+function isOptionToken(token: string): boolean {
+  return token.startsWith("-") && token !== "-" && !/^-\d/.test(token);
+}
+
+export function parseArguments<A extends ArgSpecs, F extends FlagSpecs>(
+  tokens: string[],
+  argSpecs: A | undefined,
+  flagSpecs: F | undefined,
+): ParsedInput<A, F> {
+  const flagsByName = new Map<string, [string, FlagSpec]>();
+  Object.entries(flagSpecs ?? {}).forEach(([key, spec]) => {
+    flagsByName.set(flagName(key), [key, spec]);
+    if (spec.alias) {
+      flagsByName.set(spec.alias, [key, spec]);
+    }
+  });
+
+  const positionals: string[] = [];
+  const rawFlags: Record<string, string | boolean> = {};
+  let flagsEnded = false;
+
+  for (let i = 0; i < tokens.length; i++) {
+    const token = tokens[i];
+
+    if (flagsEnded || !isOptionToken(token)) {
+      positionals.push(token);
+      continue;
+    }
+    if (token === "--") {
+      flagsEnded = true;
+      continue;
+    }
+
+    const isLong = token.startsWith("--");
+    const body = token.slice(isLong ? 2 : 1);
+    const eq = body.indexOf("=");
+    const names = isLong || eq >= 0
+      ? [eq >= 0 ? body.slice(0, eq) : body]
+      : body.split("");
+    const inlineValue = eq >= 0 ? body.slice(eq + 1) : undefined;
+
+    names.forEach((name, n) => {
+      const entry = flagsByName.get(name);
+      if (!entry) {
+        throw new ArgumentError(`unknown option '${isLong ? "--" : "-"}${name}'`);
+      }
+      const [key, spec] = entry;
+      const isLast = n === names.length - 1;
+
+      if (isBooleanFlag(spec)) {
+        if (inlineValue !== undefined && inlineValue !== "true" && inlineValue !== "false") {
+          throw new ArgumentError(`option --${flagName(key)} does not take a value`);
+        }
+        rawFlags[key] = inlineValue !== "false";
+      } else if (inlineValue !== undefined) {
+        rawFlags[key] = inlineValue;
+      } else if (isLast && i + 1 < tokens.length && !isOptionToken(tokens[i + 1])) {
+        rawFlags[key] = tokens[++i];
+      } else {
+        throw new ArgumentError(`option --${flagName(key)} expects ${spec.label}`);
+      }
+    });
+  }
+
+  const args: Record<string, unknown> = {};
+  let position = 0;
+  Object.entries(argSpecs ?? {}).forEach(([key, spec]) => {
+    if (spec.rest) {
+      args[key] = parseValue(spec, positionals.slice(position));
+      position = positionals.length;
+    } else {
+      args[key] = parseValue(spec, positionals[position]);
+      position++;
+    }
+  });
+
+  if (argSpecs && position < positionals.length) {
+    throw new ArgumentError(`unexpected argument '${positionals[position]}'`);
+  }
+
+  const flags: Record<string, unknown> = {};
+  Object.entries(flagSpecs ?? {}).forEach(([key, spec]) => {
+    flags[key] = parseValue(spec, rawFlags[key]);
+  });
+
+  return { args: args as ParsedArgs<A>, flags: flags as ParsedFlags<F>, positionals };
+}
+
+// Render an argument the way it appears in a usage line
+function describeArg(key: string, spec: ArgSpec): string {
+  const inner = innerSchema(spec.schema);
+  const text = inner instanceof z.ZodEnum
+    ? (inner.options as string[]).join("|")
+    : spec.rest ? `<${key}...>` : `<${key}>`;
+  return spec.schema.isOptional() ? `[${text}]` : text;
+}
+
+export function formatUsage(name: string, argSpecs?: ArgSpecs, flagSpecs?: FlagSpecs): string {
+  const parts = [name];
+  Object.entries(argSpecs ?? {}).forEach(([key, spec]) => parts.push(describeArg(key, spec)));
+  Object.entries(flagSpecs ?? {}).forEach(([key, spec]) => {
+    parts.push(isBooleanFlag(spec) ? `[--${flagName(key)}]` : `[--${flagName(key)} <${spec.label}>]`);
+  });
+  return parts.join(" ");
+}
+
+// One help line per flag, e.g. "--page, -p <page number> : fetch a single page"
+export function formatFlagHelp(flagSpecs: FlagSpecs): string[] {
+  return Object.entries(flagSpecs).map(([key, spec]) => {
+    const names = spec.alias ? `--${flagName(key)}, -${spec.alias}` : `--${flagName(key)}`;
+    const value = isBooleanFlag(spec) ? "" : ` <${spec.label}>`;
+    return `${names}${value}${spec.description ? ` : ${spec.description}` : ""}`;
+  });
+}
@@ -0,0 +1,235 @@
+import {
+  ArgumentError,
+  type ArgSpecs,
+  type FlagSpecs,
+  formatUsage,
+  type ParsedInput,
+  parseArguments,
+  tokenize,
+} from "./commandParser";
+import type { Endpoint, Network } from "./connectivity";
+import type { ConsolePrinter, MediaPreview } from "./console";
+import type { OrdClient } from "./ordClient";
+import { applyFilters, CapturedOutput, FilterError, printValue, splitPipeline } from "./pipeline";
+import { sessionVariables } from "./variables";
+
+// Everything a command needs from the terminal it runs in
+export interface CommandContext {
+  client: OrdClient;
+  print: ConsolePrinter;
+  // Render inscription content inline (image, text, iframe, player)
+  printMedia: (media: MediaPreview) => void;
+  // Transient progress line shown under the output; cleared when the command ends
+  status: (text: string | null) => void;
+  clear: () => void;
+  // client, endpoint and network reflect the current state each time they are
+  // read, so a script sees a switch made by an earlier line.
+  // The ord server `client` talks to
+  endpoint: Endpoint;
+  setEndpoint: (endpoint: Endpoint) => void;
+  network: Network;
+  setNetwork: (network: Network) => void;
+  registry: CommandRegistry;
+}
+
+// The same context with output sent to `print`. Copies property descriptors
+// rather than values, so getters on `ctx` stay live.
+export function withPrinter(ctx: CommandContext, print: ConsolePrinter): CommandContext {
+  return Object.defineProperties({}, {
+    ...Object.getOwnPropertyDescriptors(ctx),
+    print: { value: print, enumerable: true },
+  }) as CommandContext;
+}
+
+// An alternative name for a command, optionally with arguments prepended
+// (e.g. BLOCKTIME runs BLOCK TIME)
+export interface CommandAlias {
+  name: string;
+  args: string[];
+}
+
+export interface CommandDefinition<A extends ArgSpecs = ArgSpecs, F extends FlagSpecs = FlagSpecs> {
+  name: string;
+  aliases?: (string | CommandAlias)[];
+  category: string;
+  description: string;
+  // Generated from args and flags when omitted
+  usage?: string;
+  details?: string;
+  // Positional arguments in order; input that fails a schema never reaches run
+  args?: A;
+  flags?: F;
+  // May return a structured result for pipelines; what it printed is used otherwise.
+  // Declared as a method so a command with specific specs still fits AnyCommand.
+  run(input: ParsedInput<A, F>, ctx: CommandContext): unknown;
+}
+
+// Commands are stored type-erased; defineCommand keeps the precise types for run
+type AnyCommand = CommandDefinition<ArgSpecs, FlagSpecs>;
+
+interface ResolvedCommand {
+  command: AnyCommand;
+  args: string[];
+}
+
+export function commandUsage(command: AnyCommand): string {
+  return command.usage ?? formatUsage(command.name, command.args, command.flags);
+}
+
+export class CommandRegistry {
+  private commands = new Map<string, AnyCommand>();
+  private aliases = new Map<string, CommandAlias & { target: string }>();
+  // Runs input that is a single word but not a command name (e.g. a bare identifier)
+  private fallback: { command: string; accepts: (word: string) => boolean } | null = null;
+
+  register(command: AnyCommand): void {
+    const name = command.name.toUpperCase();
+    if (this.commands.has(name) || this.aliases.has(name)) {
+      throw new Error(`Command ${name} is already registered`);
+    }
+    this.commands.set(name, command);
+
+    for (const alias of command.aliases ?? []) {
+      const { name: aliasName, args } = typeof alias === "string" ? { name: alias, args: [] } : alias;
+      this.aliases.set(aliasName.toUpperCase(), { name: aliasName.toUpperCase(), args, target: name });
+    }
+  }
+
+  // Look up a command by name or alias, returning the arguments an alias implies
+  resolve(name: string, args: string[] = []): ResolvedCommand | undefined {
+    const upper = name.toUpperCase();
+    const command = this.commands.get(upper);
+    if (command) {
+      return { command, args };
+    }
+
+    const alias = this.aliases.get(upper);
+    if (alias) {
+      return { command: this.commands.get(alias.target)!, args: [...alias.args, ...args] };
+    }
+    return undefined;
+  }
+
+  setFallback(command: string, accepts: (word: string) => boolean): void {
+    this.fallback = { command: command.toUpperCase(), accepts };
+  }
+
+  // Every command name and alias, for completion
+  names(): string[] {
+    return [...Array.from(this.commands.keys()), ...Array.from(this.aliases.keys())];
+  }
+
+  list(): AnyCommand[] {
+    return Array.from(this.commands.values());
+  }
+
+  // Commands grouped by category, in registration order
+  byCategory(): Map<string, AnyCommand[]> {
+    const groups = new Map<string, AnyCommand[]>();
+    this.commands.forEach(command => {
+      const group = groups.get(command.category) ?? [];
+      group.push(command);
+      groups.set(command.category, group);
+    });
+    return groups;
+  }
+
+  // Run a command line, including any `| FILTER` stages, and return its result.
+  // $variables are substituted first, and the result becomes $_.
+  async execute(commandStr: string, ctx: CommandContext): Promise<unknown> {
+    let line: string;
+    try {
+      line = sessionVariables.interpolate(commandStr);
+    } catch (error) {
+      ctx.print(`Error: ${error instanceof Error ? error.message : String(error)}`, "error");
+      return undefined;
+    }
+
+    const result = await this.executePipeline(line, ctx);
+    if (result !== undefined) {
+      sessionVariables.recordResult(result);
+    }
+    return result;
+  }
+
+  private async executePipeline(commandStr: string, ctx: CommandContext): Promise<unknown> {
+    let stages: string[];
+    try {
+      stages = splitPipeline(commandStr);
+    } catch (error) {
+      ctx.print(`Error: ${error instanceof Error ? error.message : String(error)}`, "error");
+      return undefined;
+    }
+    if (stages.length === 1) {
+      return this.executeCommand(commandStr, ctx);
+    }
+
+    // The command's own output is replaced by what comes out of the filters
+    const captured = new CapturedOutput(ctx.print);
+    const result = await this.executeCommand(stages[0], withPrinter(ctx, captured.print));
+    // A command that failed without a result has already shown its error
+    if (result === undefined && captured.failed) {
+      return undefined;
+    }
+    try {
+      const value = applyFilters(result === undefined ? captured.value() : result, stages.slice(1));
+      printValue(ctx.print, value);
+      return value;
+    } catch (error) {
+      ctx.print(`Error: ${error instanceof Error ? error.message : String(error)}`, "error");
+      if (error instanceof FilterError && error.usage) {
+        ctx.print(`Usage: ${error.usage}`, "default");
+      }
+      return undefined;
+    }
+  }
+
+  // Run one command line as typed, without $variables, filters or recording $_.
+  // For commands that hand off to others, whose own result is what gets recorded.
+  async executeCommand(commandStr: string, ctx: CommandContext): Promise<unknown> {
+    let resolved: ResolvedCommand | undefined;
+
+    try {
+      const parts = tokenize(commandStr);
+      if (parts.length === 0) {
+        return undefined;
+      }
+
+      const primaryCommand = parts[0].toUpperCase();
+      resolved = this.resolve(primaryCommand, parts.slice(1));
+      if (!resolved && parts.length === 1 && this.fallback?.accepts(parts[0])) {
+        resolved = this.resolve(this.fallback.command, parts);
+      }
+
+      if (!resolved) {
+        ctx.print(`Unknown command: ${primaryCommand}. Type HELP to see available commands.`, "error");
+        return undefined;
+      }
+
+      const { command, args } = resolved;
+      return await command.run(parseArguments(args, command.args, command.flags), ctx);
+    } catch (error) {
+      if (error instanceof ArgumentError) {
+        ctx.print(`Error: ${error.message}`, "error");
+        if (resolved) {
+          ctx.print(`Usage: ${commandUsage(resolved.command)}`, "default");
+        }
+      } else if (error instanceof Error) {
+        ctx.print(`Error: ${error.message}`, "error");
+      } else {
+        ctx.print("An unknown error occurred", "error");
+      }
+      return undefined;
+    }
+  }
+}
+
+export const commandRegistry = new CommandRegistry();
+
+// Declare a command and register it with the shared registry
+export function defineCommand<A extends ArgSpecs = {}, F extends FlagSpecs = {}>(
+  command: CommandDefinition<A, F>,
+): CommandDefinition<A, F> {
+  commandRegistry.register(command);
+  return command;
+}
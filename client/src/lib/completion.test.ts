@@ -0,0 +1,101 @@
+import { z } from "zod";
+import { describe, expect, it } from "vitest";
+import { keyword } from "./commandParser";
+import { CommandRegistry } from "./commandRegistry";
+import { commonPrefix, complete, ghostText, recentIdentifiers } from "./completion";
+import { identifier, parseTxid } from "./identifiers";
+
+const TXID = "6fb976ab49dcec017f1e201e84395983204ae1a7c2abf7ced0a85d692e442799";
+const OTHER = "6fa0000000000000000000000000000000000000000000000000000000000000";
+
+const registry = new CommandRegistry();
+registry.register({
+  name: "BLOCK",
+  aliases: [{ name: "BLOCKTIME", args: ["TIME"] }],
+  category: "Blocks",
+  description: "block lookups",
+  args: {
+    action: { schema: keyword("INFO", "TIME", "HASH"), label: "action" },
+  },
+  flags: {
+    format: { schema: keyword("TABLE", "JSON").default("TABLE"), label: "format" },
+    verbose: { schema: z.boolean().default(false), label: "verbose", alias: "v" },
+  },
+  run: () => undefined,
+});
+registry.register({
+  name: "BLOCKHEIGHT",
+  category: "Blocks",
+  description: "current height",
+  run: () => undefined,
+});
+registry.register({
+  name: "TX",
+  category: "Transactions",
+  description: "transaction lookups",
+  args: {
+    txid: { schema: identifier(parseTxid), label: "txid" },
+    network: { schema: z.string().optional(), label: "network", suggest: ["MAINNET", "SIGNET"] },
+  },
+  run: () => undefined,
+});
+
+describe("complete", () => {
+  it("completes command names and aliases", () => {
+    expect(complete("blo", registry)).toEqual({ start: 0, candidates: ["BLOCK", "BLOCKHEIGHT", "BLOCKTIME"] });
+    expect(complete("", registry).candidates).toHaveLength(4);
+  });
+
+  it("completes keyword arguments from the schema", () => {
+    expect(complete("BLOCK t", registry)).toEqual({ start: 6, candidates: ["TIME"] });
+    expect(complete("block ", registry).candidates).toEqual(["INFO", "TIME", "HASH"]);
+  });
+
+  it("completes flag names and flag values", () => {
+    expect(complete("BLOCK INFO --f", registry).candidates).toEqual(["--format"]);
+    expect(complete("BLOCK INFO --format J", registry).candidates).toEqual(["JSON"]);
+  });
+
+  it("skips flags and their values when counting positionals", () => {
+    expect(complete("BLOCK --format JSON ", registry).candidates).toEqual(["INFO", "TIME", "HASH"]);
+    expect(complete("BLOCK -v ", registry).candidates).toEqual(["INFO", "TIME", "HASH"]);
+  });
+
+  it("uses suggestions for free-form arguments", () => {
+    expect(complete(`TX ${TXID} s`, registry).candidates).toEqual(["SIGNET"]);
+  });
+
+  it("offers recent identifiers that the argument accepts", () => {
+    recentIdentifiers.remember(`found ${OTHER.toUpperCase()} and ${TXID}i0`);
+    recentIdentifiers.remember(`spent in ${TXID}`);
+
+    // The inscription id is remembered too, but isn't a txid
+    expect(complete("TX 6f", registry).candidates).toEqual([TXID, OTHER]);
+    expect(complete(`TX ${TXID}i`, registry).candidates).toEqual([]);
+  });
+
+  it("has nothing for unknown commands or arguments past the last", () => {
+    expect(complete("NOPE a", registry).candidates).toEqual([]);
+    expect(complete("BLOCKHEIGHT x", registry).candidates).toEqual([]);
+  });
+});
+
+describe("commonPrefix", () => {
+  it("is the longest prefix shared case-insensitively", () => {
+    expect(commonPrefix(["BLOCK", "BLOCKHEIGHT", "blocktime"])).toBe("BLOCK");
+    expect(commonPrefix(["INFO", "TIME"])).toBe("");
+    expect(commonPrefix([])).toBe("");
+  });
+});
+
+describe("ghostText", () => {
+  it("shows the rest of the best candidate", () => {
+    expect(ghostText("BLOCK IN", registry)).toBe("FO");
+    expect(ghostText("blockh", registry)).toBe("EIGHT");
+  });
+
+  it("shows nothing for an empty word or no match", () => {
+    expect(ghostText("BLOCK ", registry)).toBe("");
+    expect(ghostText("BLOCK X", registry)).toBe("");
+  });
+});
@@ -0,0 +1,119 @@
+import { type ArgSpec, type FlagSpec, flagName, isBooleanFlag, keywordChoices } from "./commandParser";
+import type { CommandRegistry } from "./commandRegistry";
+
+// Tab completion for the prompt: command names and aliases, keyword
+// arguments and flags from each command's schemas, and identifiers seen
+// earlier in the session.
+
+export interface Completion {
+  // Where the word being completed starts in the input
+  start: number;
+  // Full replacements for that word, best first
+  candidates: string[];
+}
+
+// Inscription IDs, outpoints and txids (or block hashes) anywhere in a line of text
+const IDENTIFIER_PATTERN = /\b[0-9a-f]{64}(?:i\d+|:\d+)?\b/gi;
+
+const MAX_RECENT = 100;
+
+// Identifiers typed or printed this session, most recent first
+class RecentIdentifiers {
+  private ids: string[] = [];
+
+  remember(text: string) {
+    const found = text.match(IDENTIFIER_PATTERN);
+    if (!found) return;
+    const fresh = found.map(id => id.toLowerCase()).reverse();
+    this.ids = [...fresh, ...this.ids]
+      .filter((id, i, all) => all.indexOf(id) === i)
+      .slice(0, MAX_RECENT);
+  }
+
+  matching(prefix: string): string[] {
+    const lower = prefix.toLowerCase();
+    return this.ids.filter(id => id.startsWith(lower));
+  }
+}
+
+export const recentIdentifiers = new RecentIdentifiers();
+
+function matching(options: string[], prefix: string): string[] {
+  const upper = prefix.toUpperCase();
+  return options.filter(option => option.toUpperCase().startsWith(upper));
+}
+
+// Candidates for the last word of `line` (the cursor is assumed to be at the end)
+export function complete(line: string, registry: CommandRegistry): Completion {
+  const start = line.search(/\S*$/);
+  const word = line.slice(start);
+  const before = line.slice(0, start).split(/\s+/).filter(Boolean);
+
+  if (before.length === 0) {
+    return { start, candidates: matching(registry.names(), word).sort() };
+  }
+
+  const resolved = registry.resolve(before[0], before.slice(1));
+  if (!resolved) {
+    return { start, candidates: [] };
+  }
+  const { command, args } = resolved;
+  const flags: [string, FlagSpec][] = Object.entries(command.flags ?? {});
+
+  if (word.startsWith("-")) {
+    const names = flags.map(([key]) => `--${flagName(key)}`);
+    return { start, candidates: matching(names, word) };
+  }
+
+  // Count positionals so far, skipping flags and the values they take
+  let position = 0;
+  for (let i = 0; i < args.length; i++) {
+    const token = args[i];
+    if (!token.startsWith("-") || /^-\d/.test(token)) {
+      position++;
+      continue;
+    }
+    const name = token.replace(/^-+/, "");
+    const flag = flags.find(([key, spec]) => flagName(key) === name || spec.alias === name);
+    if (flag && !isBooleanFlag(flag[1]) && !token.includes("=")) {
+      if (i === args.length - 1) {
+        // The word is this flag's value
+        return { start, candidates: matching(keywordChoices(flag[1].schema) ?? [], word) };
+      }
+      i++;
+    }
+  }
+
+  const specs: ArgSpec[] = Object.values(command.args ?? {});
+  const restSpec = specs.find(spec => spec.rest);
+  const spec = position < specs.length ? specs[position] : restSpec;
+  if (!spec) {
+    return { start, candidates: [] };
+  }
+  // Keyword arguments complete to their keywords, others to recent identifiers they accept
+  const keywords = keywordChoices(spec.schema) ?? spec.suggest;
+  if (keywords) {
+    return { start, candidates: matching(keywords, word) };
+  }
+  return { start, candidates: recentIdentifiers.matching(word).filter(id => spec.schema.safeParse(id).success) };
+}
+
+// Longest prefix shared by every candidate, compared case-insensitively
+export function commonPrefix(candidates: string[]): string {
+  if (candidates.length === 0) return "";
+  let prefix = candidates[0];
+  candidates.forEach(candidate => {
+    while (!candidate.toUpperCase().startsWith(prefix.toUpperCase())) {
+      prefix = prefix.slice(0, -1);
+    }
+  });
+  return prefix;
+}
+
+// The rest of the best candidate, shown greyed out after the cursor
+export function ghostText(line: string, registry: CommandRegistry): string {
+  const { start, candidates } = complete(line, registry);
+  const word = line.slice(start);
+  if (word === "" || candidates.length === 0) return "";
+  return candidates[0].slice(word.length);
+}
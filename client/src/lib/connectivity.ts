@@ -0,0 +1,293 @@
+import { keyword } from "./commandParser";
+import type { TableRow } from "./table";
+
+export type ConnectivityMode = "WEB" | "ORD" | "PROXY";
+
+export type Network = "mainnet" | "testnet" | "signet" | "regtest";
+
+export const NETWORKS: Network[] = ["mainnet", "testnet", "signet", "regtest"];
+
+// URL prefix for recursive endpoints in each mode
+export const MODE_BASE_URLS: Record<ConnectivityMode, string> = {
+  ORD: "",
+  PROXY: "/api/ord",
+  WEB: "https://ordinals.com",
+};
+
+// What WEB points at on each network; there is no public regtest server
+const ORDINALS_COM: Record<Network, string | null> = {
+  mainnet: MODE_BASE_URLS.WEB,
+  testnet: "https://testnet.ordinals.com",
+  signet: "https://signet.ordinals.com",
+  regtest: null,
+};
+
+// Block 0 identifies the chain a server indexes
+const GENESIS_HASHES: Record<string, Network> = {
+  "000000000019d6689c085ae165831e934ff763ae46a2a6c172b3f1b60a8ce26f": "mainnet",
+  "000000000933ea01ad0ee984209779baaec3ced90fa3f408719526f8d77f4943": "testnet",
+  "00000008819873e925422c1ff0f99f7cc9bbb232af63a077a480a3633bee1ef6": "signet",
+  "0f9188f13cb7b2c71f2a335e3a4fc328bf5beb436012afca590b1a11466e2206": "regtest",
+};
+
+// A named ord server. The built-in modes are endpoints that can't be removed.
+export interface Endpoint {
+  name: string;
+  url: string;
+  builtin: boolean;
+  // null for ORD and PROXY, which serve whatever chain their ord indexes
+  network: Network | null;
+}
+
+export interface ProbeResult {
+  endpoint: Endpoint;
+  reachable: boolean;
+  latencyMs: number | null;
+  height: number | null;
+  // Detected from the genesis block hash, when the server answers it
+  network: Network | null;
+}
+
+const ENDPOINTS_KEY = "termina.endpoints";
+const ACTIVE_KEY = "termina.endpoint";
+const NETWORK_KEY = "termina.network";
+
+const ENDPOINT_NAME = /^[A-Z][A-Z0-9_-]{0,31}$/;
+
+// True when the server at baseUrl answers /r/blocktime with a Unix timestamp
+export async function probeBlocktime(baseUrl: string, timeoutMs: number): Promise<boolean> {
+  try {
+    const response = await fetch(`${baseUrl}/r/blocktime`, {
+      signal: AbortSignal.timeout(timeoutMs),
+      cache: "no-store",
+    });
+    if (!response.ok) {
+      return false;
+    }
+    const data = (await response.text()).trim();
+    return data !== "" && !isNaN(Number(data));
+  } catch {
+    return false;
+  }
+}
+
+async function probeText(url: string, timeoutMs: number): Promise<string | null> {
+  try {
+    const response = await fetch(url, { signal: AbortSignal.timeout(timeoutMs), cache: "no-store" });
+    return response.ok ? (await response.text()).trim() : null;
+  } catch {
+    return null;
+  }
+}
+
+async function probeHeight(baseUrl: string, timeoutMs: number): Promise<number | null> {
+  const text = await probeText(`${baseUrl}/r/blockheight`, timeoutMs);
+  return text !== null && /^\d+$/.test(text) ? Number(text) : null;
+}
+
+async function probeNetwork(baseUrl: string, timeoutMs: number): Promise<Network | null> {
+  const text = await probeText(`${baseUrl}/r/blockhash/0`, timeoutMs);
+  return text === null ? null : GENESIS_HASHES[text.replace(/"/g, "")] ?? null;
+}
+
+// Reachability, round-trip time of the blocktime check, tip height and chain
+export async function probeEndpoint(endpoint: Endpoint, timeoutMs: number): Promise<ProbeResult> {
+  const start = performance.now();
+  const reachable = await probeBlocktime(endpoint.url, timeoutMs);
+  const latencyMs = Math.round(performance.now() - start);
+  if (!reachable) {
+    return { endpoint, reachable, latencyMs: null, height: null, network: null };
+  }
+  const [height, network] = await Promise.all([
+    probeHeight(endpoint.url, timeoutMs),
+    probeNetwork(endpoint.url, timeoutMs),
+  ]);
+  return { endpoint, reachable, latencyMs, height, network };
+}
+
+export function describeUrl(url: string): string {
+  return url === "" ? "(same origin)" : url;
+}
+
+export function probeRow(result: ProbeResult): TableRow {
+  return {
+    endpoint: result.endpoint.name,
+    url: describeUrl(result.endpoint.url),
+    network: result.network ?? result.endpoint.network ?? "",
+    status: result.reachable ? "up" : "unreachable",
+    latency: result.latencyMs === null ? null : `${result.latencyMs}ms`,
+    tip: result.height,
+  };
+}
+
+// Accepts absolute http(s) URLs and same-origin paths; drops trailing slashes
+export function normalizeEndpointUrl(url: string): string {
+  const trimmed = url.trim().replace(/\/+$/, "");
+  if (trimmed === "" || trimmed.startsWith("/")) {
+    return trimmed;
+  }
+  let parsed: URL;
+  try {
+    parsed = new URL(trimmed);
+  } catch {
+    throw new Error(`Invalid endpoint URL: ${url}`);
+  }
+  if (parsed.protocol !== "http:" && parsed.protocol !== "https:") {
+    throw new Error(`Endpoint URL must use http or https: ${url}`);
+  }
+  return trimmed;
+}
+
+export function isNetwork(value: string): value is Network {
+  return (NETWORKS as string[]).includes(value);
+}
+
+// Argument schema accepting a network name in any case
+export function networkKeyword() {
+  return keyword("MAINNET", "TESTNET", "SIGNET", "REGTEST").transform(value => value.toLowerCase() as Network);
+}
+
+// Built-in and user-defined endpoints, and the selected network, persisted in localStorage
+class EndpointStore {
+  network: Network = "mainnet";
+
+  private custom: Endpoint[] = [];
+  private activeName: string | null = null;
+  private probes = new Map<string, ProbeResult>();
+
+  constructor() {
+    try {
+      const saved = JSON.parse(localStorage.getItem(ENDPOINTS_KEY) ?? "[]");
+      if (Array.isArray(saved)) {
+        this.custom = saved
+          .filter(e => e && typeof e.name === "string" && typeof e.url === "string")
+          .map(e => ({ name: e.name, url: e.url, builtin: false, network: isNetwork(e.network) ? e.network : "mainnet" }));
+      }
+      this.activeName = localStorage.getItem(ACTIVE_KEY);
+      const network = localStorage.getItem(NETWORK_KEY);
+      if (network !== null && isNetwork(network)) {
+        this.network = network;
+      }
+    } catch (error) {
+      console.error("Could not restore saved endpoints:", error);
+    }
+  }
+
+  // Preferred order when several endpoints answer. WEB follows the selected
+  // network and is left out where ordinals.com has no counterpart.
+  private builtins(): Endpoint[] {
+    const web = ORDINALS_COM[this.network];
+    return [
+      { name: "ORD", url: MODE_BASE_URLS.ORD, builtin: true, network: null },
+      { name: "PROXY", url: MODE_BASE_URLS.PROXY, builtin: true, network: null },
+      ...(web === null ? [] : [{ name: "WEB", url: web, builtin: true, network: this.network }]),
+    ];
+  }
+
+  // Every endpoint, on any network
+  list(): Endpoint[] {
+    return [...this.builtins(), ...this.custom];
+  }
+
+  // Endpoints that may serve the selected network
+  forNetwork(): Endpoint[] {
+    return this.list().filter(endpoint => this.onNetwork(endpoint));
+  }
+
+  // A detected chain wins over the declared one
+  onNetwork(endpoint: Endpoint): boolean {
+    const detected = this.probes.get(endpoint.name)?.network;
+    return (detected ?? endpoint.network ?? this.network) === this.network;
+  }
+
+  // Earlier probes describe the old network's WEB and are re-run after switching
+  setNetwork(network: Network) {
+    this.network = network;
+    this.probes.clear();
+    this.persist();
+  }
+
+  get(name: string): Endpoint | undefined {
+    const key = name.toUpperCase();
+    return this.list().find(endpoint => endpoint.name === key);
+  }
+
+  // The endpoint chosen last session, if it still exists
+  saved(): Endpoint | undefined {
+    return this.activeName === null ? undefined : this.get(this.activeName);
+  }
+
+  setActive(endpoint: Endpoint) {
+    this.activeName = endpoint.name;
+    this.persist();
+  }
+
+  add(name: string, url: string, network: Network = this.network): Endpoint {
+    const key = name.toUpperCase();
+    if (!ENDPOINT_NAME.test(key)) {
+      throw new Error(`Invalid endpoint name: ${name} (letters, digits, _ and -, starting with a letter)`);
+    }
+    if (["ORD", "PROXY", "WEB"].includes(key)) {
+      throw new Error(`${key} is a built-in endpoint and can't be redefined`);
+    }
+    const endpoint: Endpoint = { name: key, url: normalizeEndpointUrl(url), builtin: false, network };
+    this.custom = [...this.custom.filter(e => e.name !== key), endpoint];
+    this.probes.delete(key);
+    this.persist();
+    return endpoint;
+  }
+
+  remove(name: string): Endpoint {
+    const endpoint = this.get(name);
+    if (!endpoint) {
+      throw new Error(`No endpoint named ${name}`);
+    }
+    if (endpoint.builtin) {
+      throw new Error(`${endpoint.name} is a built-in endpoint and can't be removed`);
+    }
+    this.custom = this.custom.filter(e => e.name !== endpoint.name);
+    this.probes.delete(endpoint.name);
+    if (this.activeName === endpoint.name) {
+      this.activeName = null;
+    }
+    this.persist();
+    return endpoint;
+  }
+
+  // Probe the selected network's endpoints in parallel and remember the results for ENDPOINT LIST
+  async probeAll(timeoutMs: number): Promise<ProbeResult[]> {
+    const candidates = this.list().filter(endpoint => (endpoint.network ?? this.network) === this.network);
+    const results = await Promise.all(candidates.map(endpoint => probeEndpoint(endpoint, timeoutMs)));
+    results.forEach(result => this.probes.set(result.endpoint.name, result));
+    return results;
+  }
+
+  // The endpoint to use after a probe: the saved choice if it answered on the
+  // selected network, otherwise the first one that did
+  choose(results: ProbeResult[]): Endpoint | undefined {
+    const usable = results
+      .filter(result => result.reachable && this.onNetwork(result.endpoint))
+      .map(result => result.endpoint);
+    return usable.find(endpoint => endpoint.name === this.activeName) ?? usable[0];
+  }
+
+  lastProbe(name: string): ProbeResult | undefined {
+    return this.probes.get(name);
+  }
+
+  private persist() {
+    try {
+      localStorage.setItem(ENDPOINTS_KEY, JSON.stringify(this.custom.map(({ name, url, network }) => ({ name, url, network }))));
+      localStorage.setItem(NETWORK_KEY, this.network);
+      if (this.activeName === null) {
+        localStorage.removeItem(ACTIVE_KEY);
+      } else {
+        localStorage.setItem(ACTIVE_KEY, this.activeName);
+      }
+    } catch (error) {
+      console.error("Could not save endpoints:", error);
+    }
+  }
+}
+
+export const endpointStore = new EndpointStore();
@@ -0,0 +1,21 @@
+export type ConsoleEntryType = "input" | "error" | "success" | "system" | "json" | "media" | "default";
+
+export type MediaKind = "image" | "text" | "json" | "html" | "audio" | "video" | "unsupported";
+
+// Rich content rendered inline for "media" entries
+export interface MediaPreview {
+  kind: MediaKind;
+  url: string;
+  contentType: string | null;
+  // Body for text and json previews, already truncated
+  text?: string;
+  truncated?: boolean;
+}
+
+export interface ConsoleEntry {
+  text: string;
+  type: ConsoleEntryType;
+  media?: MediaPreview;
+}
+
+export type ConsolePrinter = (text: string, type?: ConsoleEntryType) => void;
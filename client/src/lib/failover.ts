@@ -0,0 +1,177 @@
+import { type Endpoint, endpointStore, probeBlocktime, type ProbeResult } from "./connectivity";
+import type { OrdFetch } from "./ordClient";
+
+// Keeps requests flowing when the chosen endpoint goes down: retries with
+// backoff, then fails over to the next healthy endpoint, and switches back once
+// a background probe sees the chosen one answering again.
+
+export interface EndpointHealth {
+  healthy: boolean;
+  failures: number;
+  lastError: string | null;
+  checkedAt: number;
+}
+
+export type FailoverListener = (active: Endpoint, notice: string) => void;
+
+const RETRIES = 2;
+const BACKOFF_MS = 300;
+const REPROBE_INTERVAL = 30_000;
+const REPROBE_TIMEOUT = 5000;
+
+// A request that kept failing; carries the last 5xx response or network error
+class EndpointFailure extends Error {
+  constructor(readonly response: Response | null, readonly error: unknown) {
+    super(response ? `status ${response.status}` : error instanceof Error ? error.message : String(error));
+  }
+}
+
+function sleep(ms: number) {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+class EndpointFailover {
+  private primary: Endpoint | null = null;
+  private active: Endpoint | null = null;
+  private healthByName = new Map<string, EndpointHealth>();
+  private listeners = new Set<FailoverListener>();
+  private reprobeTimer: ReturnType<typeof setInterval> | null = null;
+
+  // The endpoint requests are actually sent to
+  get current(): Endpoint | null {
+    return this.active;
+  }
+
+  health(name: string): EndpointHealth | undefined {
+    return this.healthByName.get(name);
+  }
+
+  listen(listener: FailoverListener): () => void {
+    this.listeners.add(listener);
+    return () => this.listeners.delete(listener);
+  }
+
+  // The user's choice; always preferred when it is reachable
+  setPrimary(endpoint: Endpoint) {
+    this.primary = endpoint;
+    this.active = endpoint;
+    this.stopReprobe();
+  }
+
+  recordProbes(results: ProbeResult[]) {
+    results.forEach(result => this.mark(result.endpoint, result.reachable, result.reachable ? null : "probe failed"));
+  }
+
+  wrap(inner: OrdFetch): OrdFetch {
+    return async (url, init) => {
+      const from = this.endpointFor(url);
+      if (!from) {
+        return inner(url, init);
+      }
+      const path = url.slice(from.url.length);
+
+      let endpoint = this.active ?? from;
+      for (;;) {
+        try {
+          const response = await this.attempt(inner, endpoint, path, init);
+          this.mark(endpoint, true, null);
+          return response;
+        } catch (error) {
+          if (!(error instanceof EndpointFailure)) throw error;
+          this.mark(endpoint, false, error.message);
+
+          const next = this.nextHealthy(endpoint);
+          if (!next) {
+            if (error.response) return error.response;
+            throw error.error;
+          }
+          this.switchTo(next, `${endpoint.name} unreachable, falling back to ${next.name}`);
+          endpoint = next;
+        }
+      }
+    };
+  }
+
+  // Retry network errors and 5xx responses with exponential backoff
+  private async attempt(inner: OrdFetch, endpoint: Endpoint, path: string, init?: RequestInit): Promise<Response> {
+    let lastResponse: Response | null = null;
+    let lastError: unknown = null;
+    for (let i = 0; i <= RETRIES; i++) {
+      if (i > 0) {
+        await sleep(BACKOFF_MS * 2 ** (i - 1));
+      }
+      try {
+        const response = await inner(`${endpoint.url}${path}`, init);
+        if (response.status < 500) {
+          return response;
+        }
+        lastResponse = response;
+      } catch (error) {
+        // A caller that gave up (timeout, cancel) doesn't want more attempts
+        if (init?.signal?.aborted) throw error;
+        lastError = error;
+      }
+    }
+    throw new EndpointFailure(lastResponse, lastError);
+  }
+
+  // The endpoint whose URL prefixes this request; the longest match wins, since "" prefixes every path
+  private endpointFor(url: string): Endpoint | undefined {
+    return endpointStore.list()
+      .filter(endpoint => url.startsWith(`${endpoint.url}/`))
+      .sort((a, b) => b.url.length - a.url.length)[0];
+  }
+
+  // Only endpoints on the selected network, so a signet session never falls back to mainnet
+  private nextHealthy(failed: Endpoint): Endpoint | undefined {
+    return endpointStore.forNetwork().find(endpoint =>
+      endpoint.name !== failed.name && this.healthByName.get(endpoint.name)?.healthy !== false,
+    );
+  }
+
+  private mark(endpoint: Endpoint, healthy: boolean, error: string | null) {
+    const previous = this.healthByName.get(endpoint.name);
+    this.healthByName.set(endpoint.name, {
+      healthy,
+      failures: healthy ? 0 : (previous?.failures ?? 0) + 1,
+      lastError: error,
+      checkedAt: Date.now(),
+    });
+  }
+
+  private switchTo(endpoint: Endpoint, notice: string) {
+    this.active = endpoint;
+    this.listeners.forEach(listener => listener(endpoint, notice));
+    if (this.primary && endpoint.name !== this.primary.name) {
+      this.startReprobe();
+    } else {
+      this.stopReprobe();
+    }
+  }
+
+  // Same /r/blocktime check detectMode uses
+  private startReprobe() {
+    if (this.reprobeTimer !== null) return;
+    this.reprobeTimer = setInterval(async () => {
+      const primary = this.primary;
+      const active = this.active;
+      if (!primary || !active || primary.name === active.name) {
+        this.stopReprobe();
+        return;
+      }
+      if (await probeBlocktime(primary.url, REPROBE_TIMEOUT)) {
+        this.mark(primary, true, null);
+        this.switchTo(primary, `${primary.name} is reachable again, switching back from ${active.name}`);
+      }
+    }, REPROBE_INTERVAL);
+  }
+
+  private stopReprobe() {
+    if (this.reprobeTimer !== null) {
+      clearInterval(this.reprobeTimer);
+      this.reprobeTimer = null;
+    }
+  }
+}
+
+export const endpointFailover = new EndpointFailover();
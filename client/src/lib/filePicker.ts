@@ -0,0 +1,14 @@
+// Ask the user for a local text file; resolves to null if they cancel
+export function pickTextFile(accept = ".txt,.csv,text/plain"): Promise<string | null> {
+  return new Promise(resolve => {
+    const input = document.createElement("input");
+    input.type = "file";
+    input.accept = accept;
+    input.onchange = async () => {
+      const file = input.files?.[0];
+      resolve(file ? await file.text() : null);
+    };
+    input.addEventListener("cancel", () => resolve(null));
+    input.click();
+  });
+}
@@ -0,0 +1,116 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+
+// history.ts restores itself from localStorage when first imported, so each
+// test loads a fresh copy against an in-memory store
+const store = new Map<string, string>();
+
+beforeEach(() => {
+  store.clear();
+  vi.stubGlobal("localStorage", {
+    getItem: (key: string) => store.get(key) ?? null,
+    setItem: (key: string, value: string) => store.set(key, value),
+    removeItem: (key: string) => store.delete(key),
+  });
+  vi.resetModules();
+});
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+async function loadHistory(saved?: unknown) {
+  if (saved !== undefined) {
+    store.set("termina.history", JSON.stringify(saved));
+  }
+  const { commandHistory, HistoryError } = await import("./history");
+  return { history: commandHistory, HistoryError };
+}
+
+describe("numbering", () => {
+  it("numbers entries in the order they were added", async () => {
+    const { history } = await loadHistory();
+    ["BLOCK 1", "BLOCK 2", "BLOCK 3"].forEach(command => history.add(command));
+    expect(history.list()).toEqual([
+      { number: 1, command: "BLOCK 1" },
+      { number: 2, command: "BLOCK 2" },
+      { number: 3, command: "BLOCK 3" },
+    ]);
+    expect(history.list(2).map(entry => entry.number)).toEqual([2, 3]);
+  });
+
+  it("moves a repeated command to the end with a new number", async () => {
+    const { history } = await loadHistory();
+    ["BLOCK 1", "BLOCK 2", "BLOCK 1"].forEach(command => history.add(command));
+    expect(history.list()).toEqual([
+      { number: 2, command: "BLOCK 2" },
+      { number: 3, command: "BLOCK 1" },
+    ]);
+    expect(history.at(0)).toBe("BLOCK 2");
+  });
+
+  it("keeps counting after clear and across reloads", async () => {
+    const first = await loadHistory();
+    first.history.add("BLOCK 1");
+    first.history.add("BLOCK 2");
+    first.history.clear();
+    first.history.add("BLOCK 3");
+    expect(first.history.list()).toEqual([{ number: 3, command: "BLOCK 3" }]);
+
+    vi.resetModules();
+    const { history } = await loadHistory();
+    history.add("BLOCK 4");
+    expect(history.list().map(entry => entry.number)).toEqual([3, 4]);
+  });
+
+  it("keeps numbers when old entries are dropped", async () => {
+    const { history } = await loadHistory();
+    for (let i = 1; i <= 501; i++) history.add(`BLOCK ${i}`);
+    expect(history.size).toBe(500);
+    expect(history.list(1)).toEqual([{ number: 501, command: "BLOCK 501" }]);
+    expect(history.expand("!2")).toBe("BLOCK 2");
+    expect(() => history.expand("!1")).toThrow("!1: event not found");
+  });
+
+  it("numbers a history saved as a plain list of commands", async () => {
+    const { history } = await loadHistory(["BLOCK 1", 7, "BLOCK 2"]);
+    expect(history.list()).toEqual([
+      { number: 1, command: "BLOCK 1" },
+      { number: 2, command: "BLOCK 2" },
+    ]);
+    history.add("BLOCK 3");
+    expect(history.list(1)).toEqual([{ number: 3, command: "BLOCK 3" }]);
+  });
+});
+
+describe("expand", () => {
+  it("replaces !! with the last command and !n with entry n", async () => {
+    const { history } = await loadHistory({ next: 12, entries: [{ number: 10, command: "BLOCK 1" }, { number: 11, command: "TX abc" }] });
+    expect(history.expand("!!")).toBe("TX abc");
+    expect(history.expand("!10")).toBe("BLOCK 1");
+    expect(history.expand("!10 | .height")).toBe("BLOCK 1 | .height");
+  });
+
+  it("leaves other lines alone", async () => {
+    const { history } = await loadHistory();
+    expect(history.expand("BLOCK !1")).toBe("BLOCK !1");
+    expect(history.expand("!abc")).toBe("!abc");
+  });
+
+  it("reports events that don't exist", async () => {
+    const { history, HistoryError } = await loadHistory();
+    expect(() => history.expand("!!")).toThrow(HistoryError);
+    history.add("BLOCK 1");
+    expect(() => history.expand("!0")).toThrow("!0: event not found");
+  });
+});
+
+describe("search", () => {
+  it("matches case-insensitively, newest last or newest first", async () => {
+    const { history } = await loadHistory();
+    ["BLOCK 1", "TX abc", "block 2"].forEach(command => history.add(command));
+    expect(history.search("Block").map(entry => entry.number)).toEqual([1, 3]);
+    expect(history.reverseSearch("block")).toBe(2);
+    expect(history.reverseSearch("block", 2)).toBe(0);
+    expect(history.reverseSearch("block", 0)).toBeNull();
+  });
+});
@@ -0,0 +1,126 @@
+// Command history persisted in localStorage. Re-running a command moves it to
+// the end instead of storing it twice, and only the newest entries are kept.
+// Each entry gets the next number when added and keeps it, so the number HISTORY
+// shows is the one !n runs, even after older entries are dropped.
+
+const HISTORY_KEY = "termina.history";
+const MAX_ENTRIES = 500;
+
+export interface HistoryEntry {
+  number: number;
+  command: string;
+}
+
+export class HistoryError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "HistoryError";
+  }
+}
+
+interface SavedHistory {
+  next: number;
+  entries: HistoryEntry[];
+}
+
+function isEntry(value: unknown): value is HistoryEntry {
+  const entry = value as HistoryEntry;
+  return typeof entry === "object" && entry !== null && Number.isSafeInteger(entry.number) && typeof entry.command === "string";
+}
+
+class CommandHistory {
+  private entries: HistoryEntry[] = [];
+  private nextNumber = 1;
+
+  constructor() {
+    try {
+      const saved: unknown = JSON.parse(localStorage.getItem(HISTORY_KEY) ?? "[]");
+      if (Array.isArray(saved)) {
+        // Saved before entries had numbers: a plain list of commands, oldest first
+        this.entries = saved
+          .filter((command): command is string => typeof command === "string")
+          .slice(-MAX_ENTRIES)
+          .map((command, i) => ({ number: i + 1, command }));
+      } else if (saved && typeof saved === "object") {
+        const { next, entries } = saved as SavedHistory;
+        this.entries = (Array.isArray(entries) ? entries.filter(isEntry) : []).slice(-MAX_ENTRIES);
+        if (Number.isSafeInteger(next)) this.nextNumber = next;
+      }
+      const last = this.entries[this.entries.length - 1]?.number ?? 0;
+      this.nextNumber = Math.max(this.nextNumber, last + 1);
+    } catch (error) {
+      console.error("Could not restore command history:", error);
+    }
+  }
+
+  get size(): number {
+    return this.entries.length;
+  }
+
+  add(command: string) {
+    const entry = { number: this.nextNumber++, command };
+    this.entries = [...this.entries.filter(existing => existing.command !== command), entry].slice(-MAX_ENTRIES);
+    this.persist();
+  }
+
+  // Command at a 0-based position, oldest first, for browsing with the arrow keys
+  at(index: number): string | undefined {
+    return this.entries[index]?.command;
+  }
+
+  // The last `count` entries, or all of them
+  list(count?: number): HistoryEntry[] {
+    return count === undefined ? [...this.entries] : this.entries.slice(-count);
+  }
+
+  search(term: string): HistoryEntry[] {
+    const lower = term.toLowerCase();
+    return this.list().filter(entry => entry.command.toLowerCase().includes(lower));
+  }
+
+  // Index of the newest entry before `before` containing `term`, for Ctrl+R
+  reverseSearch(term: string, before = this.entries.length): number | null {
+    const lower = term.toLowerCase();
+    for (let i = Math.min(before, this.entries.length) - 1; i >= 0; i--) {
+      if (this.entries[i].command.toLowerCase().includes(lower)) {
+        return i;
+      }
+    }
+    return null;
+  }
+
+  // Numbering carries on, so an old !n can't run a newer command
+  clear() {
+    this.entries = [];
+    this.persist();
+  }
+
+  // Replace a leading !! (last command) or !n (the entry numbered n) the way
+  // bash does; anything after it is kept
+  expand(line: string): string {
+    const match = line.match(/^!(!|\d+)(.*)$/);
+    if (!match) {
+      return line;
+    }
+    const [, event, rest] = match;
+    const entry = event === "!"
+      ? this.entries[this.entries.length - 1]
+      : this.entries.find(candidate => candidate.number === Number(event));
+    const command = entry?.command;
+    if (command === undefined) {
+      throw new HistoryError(`!${event}: event not found`);
+    }
+    return command + rest;
+  }
+
+  private persist() {
+    try {
+      const saved: SavedHistory = { next: this.nextNumber, entries: this.entries };
+      localStorage.setItem(HISTORY_KEY, JSON.stringify(saved));
+    } catch (error) {
+      console.error("Could not save command history:", error);
+    }
+  }
+}
+
+export const commandHistory = new CommandHistory();
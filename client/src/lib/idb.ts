@@ -0,0 +1,78 @@
+// Minimal promise wrapper around IndexedDB for Termina's persistent stores.
+// Adding a store means listing it here and bumping DB_VERSION.
+
+const DB_NAME = "termina";
+const DB_VERSION = 2;
+
+export type StoreName = "responses" | "ociPages";
+
+const STORES: StoreName[] = ["responses", "ociPages"];
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+export function isIndexedDbAvailable(): boolean {
+  return typeof indexedDB !== "undefined";
+}
+
+function openDatabase(): Promise<IDBDatabase> {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        STORES.forEach(store => {
+          if (!db.objectStoreNames.contains(store)) {
+            db.createObjectStore(store);
+          }
+        });
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+    // Let a later call retry if opening failed (e.g. blocked by another tab)
+    dbPromise.catch(() => {
+      dbPromise = null;
+    });
+  }
+  return dbPromise;
+}
+
+function promisify<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+async function withStore<T>(
+  store: StoreName,
+  mode: IDBTransactionMode,
+  action: (objectStore: IDBObjectStore) => IDBRequest<T>,
+): Promise<T> {
+  const db = await openDatabase();
+  return promisify(action(db.transaction(store, mode).objectStore(store)));
+}
+
+export function idbGet<T>(store: StoreName, key: IDBValidKey): Promise<T | undefined> {
+  return withStore(store, "readonly", s => s.get(key));
+}
+
+export async function idbPut<T>(store: StoreName, key: IDBValidKey, value: T): Promise<void> {
+  await withStore(store, "readwrite", s => s.put(value, key));
+}
+
+export async function idbDelete(store: StoreName, key: IDBValidKey): Promise<void> {
+  await withStore(store, "readwrite", s => s.delete(key));
+}
+
+export async function idbClear(store: StoreName): Promise<void> {
+  await withStore(store, "readwrite", s => s.clear());
+}
+
+export function idbGetAll<T>(store: StoreName): Promise<T[]> {
+  return withStore(store, "readonly", s => s.getAll());
+}
+
+export function idbCount(store: StoreName): Promise<number> {
+  return withStore(store, "readonly", s => s.count());
+}
@@ -0,0 +1,124 @@
+import { describe, expect, it } from "vitest";
+import { parseValue } from "./commandParser";
+import {
+  classifyIdentifier,
+  identifier,
+  IdentifierError,
+  parseBlockHash,
+  parseBlockQuery,
+  parseHeight,
+  parseInscriptionId,
+  parseOutpoint,
+  parseSatInput,
+  parseTxid,
+} from "./identifiers";
+
+const TXID = "6fb976ab49dcec017f1e201e84395983204ae1a7c2abf7ced0a85d692e442799";
+const GENESIS = "000000000019d6689c085ae165831e934ff763ae46a2a6c172b3f1b60a8ce26f";
+
+describe("hex identifiers", () => {
+  it("normalize to lower case and trim whitespace", () => {
+    expect(parseTxid(` ${TXID.toUpperCase()} `)).toBe(TXID);
+    expect(parseBlockHash(GENESIS)).toBe(GENESIS);
+  });
+
+  it("point at the first non-hex character", () => {
+    expect(() => parseTxid(`${TXID.slice(0, 10)}g${TXID.slice(11)}`))
+      .toThrow("txid has a non-hex character 'g' at position 11");
+    expect(() => parseBlockHash("../../admin")).toThrow("block hash has a non-hex character '.' at position 1");
+  });
+
+  it("require exactly 64 characters", () => {
+    expect(() => parseTxid(TXID.slice(1))).toThrow("txid must be 64 hex characters, got 63");
+    expect(() => parseTxid(`${TXID}00`)).toThrow(IdentifierError);
+  });
+});
+
+describe("inscription ids", () => {
+  it("split on the last i and normalize both parts", () => {
+    expect(parseInscriptionId(`${TXID.toUpperCase()}I0`)).toBe(`${TXID}i0`);
+    expect(parseInscriptionId(`${TXID}i007`)).toBe(`${TXID}i7`);
+  });
+
+  it("explain what is wrong", () => {
+    expect(() => parseInscriptionId(TXID)).toThrow("has no 'i'");
+    expect(() => parseInscriptionId(`${TXID}i`)).toThrow("inscription index must be a whole number, got ''");
+    expect(() => parseInscriptionId(`${TXID}i4294967296`)).toThrow("inscription index must be at most 4294967295");
+    expect(() => parseInscriptionId(`abci0`)).toThrow("inscription txid must be 64 hex characters, got 3");
+  });
+});
+
+describe("outpoints", () => {
+  it("are <txid>:<vout>", () => {
+    expect(parseOutpoint(`${TXID.toUpperCase()}:01`)).toBe(`${TXID}:1`);
+    expect(() => parseOutpoint(TXID)).toThrow("outpoints are <txid>:<vout>");
+    expect(() => parseOutpoint(`${TXID}:1:2`)).toThrow("outpoints are <txid>:<vout>");
+    expect(() => parseOutpoint(`${TXID}:-1`)).toThrow("vout must be a whole number, got '-1'");
+  });
+});
+
+describe("heights, blocks and sats", () => {
+  it("parse heights as whole numbers", () => {
+    expect(parseHeight(" 840000 ")).toBe(840000);
+    expect(() => parseHeight("84e4")).toThrow("block height must be a whole number");
+  });
+
+  it("tell a height from a block hash", () => {
+    expect(parseBlockQuery("0")).toBe(0);
+    expect(parseBlockQuery(GENESIS.toUpperCase())).toBe(GENESIS);
+    expect(() => parseBlockQuery("tip")).toThrow(IdentifierError);
+  });
+
+  it("accept every sat notation and report sat errors as identifier errors", () => {
+    expect(parseSatInput("nvtdijuwxlp")).toBe(0);
+    expect(parseSatInput("1.0")).toBe(5_000_000_000);
+    expect(() => parseSatInput("2099999997690000")).toThrow(IdentifierError);
+  });
+});
+
+describe("identifier schemas", () => {
+  it("return the normalized value", () => {
+    expect(parseValue({ schema: identifier(parseTxid), label: "txid" }, TXID.toUpperCase())).toBe(TXID);
+  });
+
+  it("put the parser's explanation in the argument error", () => {
+    expect(() => parseValue({ schema: identifier(parseHeight), label: "block height" }, "abc"))
+      .toThrow("invalid block height 'abc': block height must be a whole number, got 'abc'");
+  });
+});
+
+describe("classifyIdentifier", () => {
+  it("reads a 64-hex string as both a txid and a block hash", () => {
+    expect(classifyIdentifier(GENESIS.toUpperCase())).toEqual([
+      { kind: "txid", value: GENESIS },
+      { kind: "blockhash", value: GENESIS },
+    ]);
+  });
+
+  it("reads a whole number as both a height and a sat", () => {
+    expect(classifyIdentifier("840000")).toEqual([
+      { kind: "height", value: 840000 },
+      { kind: "sat", value: 840000 },
+    ]);
+  });
+
+  it("reads inscription ids and outpoints only as themselves", () => {
+    expect(classifyIdentifier(`${TXID}i0`)).toEqual([{ kind: "inscription", value: `${TXID}i0` }]);
+    expect(classifyIdentifier(`${TXID}:1`)).toEqual([{ kind: "outpoint", value: `${TXID}:1` }]);
+  });
+
+  it("reads other sat notations as sats", () => {
+    expect(classifyIdentifier("1.0")).toEqual([{ kind: "sat", value: 5_000_000_000 }]);
+  });
+
+  it("reads words as sat names unless they are left out", () => {
+    expect(classifyIdentifier("nvtdijuwxlp")).toEqual([{ kind: "sat", value: 0 }]);
+    expect(classifyIdentifier("nvtdijuwxlp", { satNames: false })).toEqual([]);
+    expect(classifyIdentifier("1.0", { satNames: false })).toEqual([{ kind: "sat", value: 5_000_000_000 }]);
+  });
+
+  it("returns no readings for input that parses as nothing", () => {
+    expect(classifyIdentifier(`${TXID}:x`)).toEqual([]);
+    expect(classifyIdentifier("12-34")).toEqual([]);
+  });
+});
@@ -0,0 +1,151 @@
+import { z } from "zod";
+import { parseSat, SatParseError, satNotation } from "./satMath";
+
+// Validation and normalization for everything users type into ord URLs.
+// Each parser returns the canonical form (lower-case hex, plain integers) or
+// throws an IdentifierError saying exactly what is wrong, so nothing malformed
+// (or anything like "../") ever reaches a request path.
+
+export class IdentifierError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "IdentifierError";
+  }
+}
+
+// Largest vout and inscription index ord accepts (u32)
+const MAX_U32 = 0xffffffff;
+
+function describeHexProblem(value: string, what: string): string | null {
+  const bad = value.search(/[^0-9a-fA-F]/);
+  if (bad !== -1) {
+    return `${what} has a non-hex character '${value[bad]}' at position ${bad + 1}`;
+  }
+  if (value.length !== 64) {
+    return `${what} must be 64 hex characters, got ${value.length}`;
+  }
+  return null;
+}
+
+function parseHex64(input: string, what: string): string {
+  const value = input.trim();
+  const problem = describeHexProblem(value, what);
+  if (problem) {
+    throw new IdentifierError(problem);
+  }
+  return value.toLowerCase();
+}
+
+function parseU32(input: string, what: string): number {
+  if (!/^\d+$/.test(input)) {
+    throw new IdentifierError(`${what} must be a whole number, got '${input}'`);
+  }
+  const value = Number(input);
+  if (value > MAX_U32) {
+    throw new IdentifierError(`${what} must be at most ${MAX_U32}, got ${input}`);
+  }
+  return value;
+}
+
+export function parseTxid(input: string): string {
+  return parseHex64(input, "txid");
+}
+
+export function parseBlockHash(input: string): string {
+  return parseHex64(input, "block hash");
+}
+
+// <txid>i<index>
+export function parseInscriptionId(input: string): string {
+  const value = input.trim();
+  const separator = value.toLowerCase().lastIndexOf("i");
+  if (separator === -1) {
+    throw new IdentifierError(`inscription ids are <txid>i<index>, '${input}' has no 'i'`);
+  }
+  const txid = parseHex64(value.slice(0, separator), "inscription txid");
+  const index = parseU32(value.slice(separator + 1), "inscription index");
+  return `${txid}i${index}`;
+}
+
+// <txid>:<vout>
+export function parseOutpoint(input: string): string {
+  const value = input.trim();
+  const parts = value.split(":");
+  if (parts.length !== 2) {
+    throw new IdentifierError(`outpoints are <txid>:<vout>, got '${input}'`);
+  }
+  return `${parseHex64(parts[0], "outpoint txid")}:${parseU32(parts[1], "vout")}`;
+}
+
+export function parseHeight(input: string): number {
+  return parseU32(input.trim(), "block height");
+}
+
+// Sat number, name, degree, decimal or percentile, as a sat number
+export function parseSatInput(input: string): number {
+  try {
+    return parseSat(input);
+  } catch (error) {
+    if (error instanceof SatParseError) {
+      throw new IdentifierError(error.message);
+    }
+    throw error;
+  }
+}
+
+// Block height or hash, for endpoints that take either
+export function parseBlockQuery(input: string): number | string {
+  return /^\d+$/.test(input.trim()) ? parseHeight(input) : parseBlockHash(input);
+}
+
+// Argument schema running one of the parsers above; its message becomes the ArgumentError
+export function identifier<T>(parse: (input: string) => T) {
+  return z.string().transform((value, ctx) => {
+    try {
+      return parse(value);
+    } catch (error) {
+      if (!(error instanceof IdentifierError)) throw error;
+      ctx.addIssue({ code: z.ZodIssueCode.custom, message: error.message });
+      return z.NEVER;
+    }
+  });
+}
+
+export type IdentifierKind = "inscription" | "outpoint" | "txid" | "blockhash" | "height" | "sat";
+
+export interface ClassifiedIdentifier {
+  kind: IdentifierKind;
+  value: string | number;
+}
+
+// Every reading of the input that parses, most specific first. A 64-hex string
+// is both a txid and a block hash, and a whole number both a height and a sat.
+// Sat names can be left out, since any short word would otherwise qualify.
+export function classifyIdentifier(input: string, { satNames = true }: { satNames?: boolean } = {}): ClassifiedIdentifier[] {
+  const value = input.trim();
+  const readings: ClassifiedIdentifier[] = [];
+  const attempt = (kind: IdentifierKind, parse: (input: string) => string | number) => {
+    try {
+      readings.push({ kind, value: parse(value) });
+    } catch (error) {
+      if (!(error instanceof IdentifierError)) throw error;
+    }
+  };
+
+  if (/i\d+$/i.test(value)) {
+    attempt("inscription", parseInscriptionId);
+  } else if (value.includes(":")) {
+    attempt("outpoint", parseOutpoint);
+  } else if (/^[0-9a-f]{64}$/i.test(value)) {
+    attempt("txid", parseTxid);
+    attempt("blockhash", parseBlockHash);
+  } else {
+    if (/^\d+$/.test(value)) {
+      attempt("height", parseHeight);
+    }
+    if (satNames || satNotation(value) !== "name") {
+      attempt("sat", parseSatInput);
+    }
+  }
+  return readings;
+}
@@ -0,0 +1,62 @@
+import type { MediaKind, MediaPreview } from "./console";
+import type { OrdClient } from "./ordClient";
+
+// Longest text body shown inline before truncating
+const MAX_TEXT_CHARS = 4000;
+const MAX_TEXT_LINES = 80;
+
+export function mediaKind(contentType: string | null): MediaKind {
+  const type = (contentType ?? "").split(";")[0].trim().toLowerCase();
+  if (type === "text/html" || type === "image/svg+xml") return "html";
+  if (type.startsWith("image/")) return "image";
+  if (type.startsWith("audio/")) return "audio";
+  if (type.startsWith("video/")) return "video";
+  if (type === "application/json" || type.endsWith("+json")) return "json";
+  if (type.startsWith("text/") || type === "application/javascript" || type === "application/xml") return "text";
+  return "unsupported";
+}
+
+function truncate(text: string): { text: string; truncated: boolean } {
+  let result = text;
+  const lines = result.split("\n");
+  if (lines.length > MAX_TEXT_LINES) {
+    result = lines.slice(0, MAX_TEXT_LINES).join("\n");
+  }
+  if (result.length > MAX_TEXT_CHARS) {
+    result = result.slice(0, MAX_TEXT_CHARS);
+  }
+  return { text: result, truncated: result.length < text.length };
+}
+
+// Work out how to show an inscription's content, fetching the body for text kinds.
+// The content type comes from a HEAD request, falling back to /r/inscription.
+export async function buildPreview(
+  client: OrdClient,
+  inscriptionId: string,
+  { undelegated = false }: { undelegated?: boolean } = {},
+): Promise<MediaPreview> {
+  const path = undelegated ? `/r/undelegated-content/${inscriptionId}` : `/content/${inscriptionId}`;
+  const url = client.url(path);
+
+  let contentType: string | null = null;
+  try {
+    contentType = await client.getContentType(path);
+  } catch {
+    contentType = (await client.getInscription(inscriptionId)).content_type;
+  }
+
+  const kind = mediaKind(contentType);
+  if (kind !== "text" && kind !== "json") {
+    return { kind, url, contentType };
+  }
+
+  let body = await client.getText(path);
+  if (kind === "json") {
+    try {
+      body = JSON.stringify(JSON.parse(body), null, 2);
+    } catch {
+      return { kind: "text", url, contentType, ...truncate(body) };
+    }
+  }
+  return { kind, url, contentType, ...truncate(body) };
+}
@@ -0,0 +1,322 @@
+import type { ConsolePrinter } from "./console";
+import { idbGet, idbPut, isIndexedDbAvailable } from "./idb";
+import { decodeOciPage, DISTRICTS_PER_PAGE, expectedEntryCount, MAX_DISTRICT } from "./ociDecoder";
+import type { OrdClient } from "./ordClient";
+
+// Bitcoin Districts On-Chain Index (OCI).
+// Mirrors the functions exported by the OCI inscription: the district sat numbers
+// are stored on-chain as nine pages of delta-encoded sats, 100,000 districts each.
+
+export const OCI_INSCRIPTION_ID = "840bc0df4ffc5a7ccedbee35e97506c9577160e233982e627d0045d06366e362i0";
+
+export const OCI_PAGES = [
+  '/content/01bba6c58af39d7f199aa2bceeaaba1ba91b23d2663bc4ef079a4b5e442dbf74i0',
+  '/content/bb01dfa977a5cd0ee6e900f1d1f896b5ec4b1e3c7b18f09c952f25af6591809fi0',
+  '/content/bb02e94f3062facf6aa2e47eeed348d017fd31c97614170dddb58fc59da304efi0',
+  '/content/bb037ec98e6700e8415f95d1f5ca1fe1ba23a3f0c5cb7284d877e9ac418d0d32i0',
+  '/content/bb9438f4345f223c6f4f92adf6db12a82c45d1724019ecd7b6af4fcc3f5786cei0',
+  '/content/bb0542d4606a9e7eb4f31051e91f7696040db06ca1383dff98505618c34d7df7i0',
+  '/content/bb06a4dffba42b6b513ddee452b40a67688562be4a1345127e4d57269e6b2ab6i0',
+  '/content/bb076934c1c22007b315dd1dc0f8c4a2f9d52f348320cfbadc7c0bd99eaa5e18i0',
+  '/content/bb986a1208380ec7db8df55a01c88c73a581069a51b5a2eb2734b41ba10b65c2i0',
+];
+
+// Districts whose bitmap is not the first inscription on its sat
+export const OCI_SAT_INDICES: Record<number, number> = {
+  92871: 1, 92970: 1, 123132: 1, 365518: 1, 700181: 1,
+  826151: 1, 827151: 1, 828151: 1, 828239: 1, 828661: 1,
+  829151: 1, 830151: 1, 832104: 2, 832249: 2, 832252: 2,
+  832385: 4, 833067: 1, 833101: 3, 833105: 4, 833109: 4,
+  833121: 8, 834030: 2, 834036: 2, 834051: 17, 834073: 4,
+  836151: 1, 837115: 2, 837120: 2, 837151: 1, 837183: 3,
+  837188: 2, 838058: 5, 838068: 2, 838076: 2, 838096: 1,
+  838151: 1, 838821: 1, 839151: 1, 839377: 1, 839378: 2,
+  839382: 2, 839397: 1, 840151: 1, 841151: 1, 842151: 1,
+  845151: 1
+};
+
+export { DISTRICTS_PER_PAGE, MAX_DISTRICT };
+
+// Upper bound for a single batch query
+export const MAX_BATCH_DISTRICTS = 10000;
+
+// Parse district lists such as "800000-800099", "1,5,9" or one number per line
+export function parseDistrictList(text: string): number[] {
+  const districts: number[] = [];
+  const parts = text.split(/[\s,]+/).filter(Boolean);
+
+  for (const part of parts) {
+    const match = /^(\d+)(?:-(\d+))?$/.exec(part);
+    if (!match) {
+      throw new Error(`expected district number or range, got '${part}'`);
+    }
+    const first = Number(match[1]);
+    const last = match[2] === undefined ? first : Number(match[2]);
+    if (first > last) {
+      throw new Error(`range '${part}' is reversed`);
+    }
+    if (last > MAX_DISTRICT) {
+      throw new Error(`district ${last} is above ${MAX_DISTRICT}`);
+    }
+    if (districts.length + (last - first + 1) > MAX_BATCH_DISTRICTS) {
+      throw new Error(`at most ${MAX_BATCH_DISTRICTS} districts can be queried at once`);
+    }
+    for (let district = first; district <= last; district++) {
+      districts.push(district);
+    }
+  }
+  return districts;
+}
+
+// Bumped whenever decoding changes, so pages decoded by older code are refetched
+const OCI_DECODER_REVISION = 3;
+
+// Persisted pages are only trusted if they were decoded from this exact page list
+export const OCI_INDEX_VERSION = fnv1a(`${OCI_DECODER_REVISION}:${OCI_PAGES.join(",")}`);
+
+interface PersistedPage {
+  version: string;
+  sats: Float64Array;
+}
+
+function fnv1a(text: string): string {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return (hash >>> 0).toString(16).padStart(8, "0");
+}
+
+export class OciIndex {
+  // Decoded pages, 0 until fetched
+  readonly pages: (number[] | 0)[] = Array(OCI_PAGES.length).fill(0);
+
+  // Source of the OCI inscription, once fetched with loadScript
+  rawScript: string | null = null;
+
+  // Log request and decoding details while loading pages
+  verbose = false;
+
+  // sat -> districts inscribed on it, built once every page is available
+  private satToDistricts: Map<number, number[]> | null = null;
+
+  // In-flight page loads, so concurrent lookups share one download
+  private pendingPages = new Map<number, Promise<boolean>>();
+
+  get loadedPageCount(): number {
+    return this.pages.filter(p => p !== 0).length;
+  }
+
+  // Fetch the OCI inscription. OciIndex implements its functions directly, so the
+  // script is never evaluated in the page; OciSandbox runs it in a sandboxed iframe instead.
+  async loadScript(client: OrdClient, log: ConsolePrinter): Promise<boolean> {
+    log("Loading Bitcoin Districts OCI module...", "system");
+    log("This may take a few moments to load and process the inscription.", "system");
+
+    try {
+      this.rawScript = await client.getText(`/content/${OCI_INSCRIPTION_ID}`, { cache: 'no-store' });
+      log("OCI module loaded successfully!", "success");
+      return true;
+    } catch (error) {
+      log(`Error: Could not load OCI module. ${error instanceof Error ? error.message : String(error)}`, "error");
+      return false;
+    }
+  }
+
+  // Load a previously decoded page from IndexedDB, if one matches the current version
+  async restorePage(page: number): Promise<boolean> {
+    if (this.pages[page]) {
+      return true;
+    }
+    if (!isIndexedDbAvailable()) {
+      return false;
+    }
+    try {
+      const persisted = await idbGet<PersistedPage>("ociPages", page);
+      if (!persisted || persisted.version !== OCI_INDEX_VERSION) {
+        return false;
+      }
+      this.pages[page] = Array.from(persisted.sats);
+      return true;
+    } catch (e) {
+      console.error(`Restoring OCI page ${page} failed:`, e);
+      return false;
+    }
+  }
+
+  // Restore every persisted page; returns how many are now in memory
+  async restoreAll(): Promise<number> {
+    for (let page = 0; page < OCI_PAGES.length; page++) {
+      await this.restorePage(page);
+    }
+    return this.loadedPageCount;
+  }
+
+  private async persistPage(page: number) {
+    const sats = this.pages[page];
+    if (!sats || !isIndexedDbAvailable()) {
+      return;
+    }
+    try {
+      await idbPut<PersistedPage>("ociPages", page, { version: OCI_INDEX_VERSION, sats: Float64Array.from(sats) });
+    } catch (e) {
+      console.error(`Persisting OCI page ${page} failed:`, e);
+    }
+  }
+
+  // Make a page available, from IndexedDB when possible, otherwise from the network
+  async ensurePage(client: OrdClient, page: number, log: ConsolePrinter): Promise<boolean> {
+    let pending = this.pendingPages.get(page);
+    if (!pending) {
+      pending = (async () => (await this.restorePage(page)) || this.fillPage(client, page, log))();
+      this.pendingPages.set(page, pending);
+      pending.finally(() => this.pendingPages.delete(page));
+    }
+    return pending;
+  }
+
+  // Prefetch every page, reporting progress as each one becomes available
+  async loadAllPages(client: OrdClient, log: ConsolePrinter): Promise<number> {
+    let ready = 0;
+    for (let page = 0; page < OCI_PAGES.length; page++) {
+      const first = page * DISTRICTS_PER_PAGE;
+      const last = Math.min(first + DISTRICTS_PER_PAGE - 1, MAX_DISTRICT);
+      const restored = await this.restorePage(page);
+      const ok = restored || await this.fillPage(client, page, log);
+      if (ok) {
+        ready++;
+      }
+      const source = restored ? "from local index" : ok ? "downloaded" : "failed";
+      log(`[${page + 1}/${OCI_PAGES.length}] Districts ${first}-${last}: ${source}`, ok ? "success" : "error");
+    }
+    return ready;
+  }
+
+  // Implementation of the fillPage function from the OCI script
+  async fillPage(client: OrdClient, page: number, log: ConsolePrinter): Promise<boolean> {
+    const first = page * DISTRICTS_PER_PAGE;
+    log(`Loading data for districts ${first} - ${first + expectedEntryCount(page) - 1}...`, "default");
+    if (this.verbose) {
+      log(`Fetching from: ${client.url(OCI_PAGES[page])}`, "default");
+    }
+
+    let responseText: string;
+    try {
+      responseText = await client.getText(OCI_PAGES[page], { cache: 'no-store' });
+    } catch (error) {
+      log(`Error: Could not load district data. ${error instanceof Error ? error.message : String(error)}`, "error");
+      return false;
+    }
+
+    if (this.verbose) {
+      const previewText = responseText.length > 100
+        ? responseText.substring(0, 100) + "..."
+        : responseText;
+      log(`Response preview for page ${page}: ${previewText}`, "default");
+    }
+
+    try {
+      const decoded = decodeOciPage(page, responseText);
+      if (this.verbose) {
+        log(`Decoded page ${page} as ${decoded.format}: ${decoded.sats.length} districts`, "default");
+        if (decoded.unresolved.length > 0) {
+          const districts = decoded.unresolved.map(offset => first + offset).join(", ");
+          log(`Unresolved on-chain as well, so left at sat 0: ${districts}`, "default");
+        }
+      }
+      this.pages[page] = decoded.sats;
+    } catch (error) {
+      log(`Error decoding district data: ${error instanceof Error ? error.message : String(error)}`, "error");
+      return false;
+    }
+
+    await this.persistPage(page);
+    log(`District data for page ${page} loaded successfully!`, "success");
+    return true;
+  }
+
+  // Build the sat -> district reverse index, loading any missing pages first
+  async buildReverseIndex(client: OrdClient, log: ConsolePrinter): Promise<boolean> {
+    if (this.satToDistricts) {
+      return true;
+    }
+
+    if (await this.restoreAll() < OCI_PAGES.length) {
+      log("The reverse index needs every district page; loading the missing ones...", "system");
+      if (await this.loadAllPages(client, log) < OCI_PAGES.length) {
+        return false;
+      }
+    }
+
+    const index = new Map<number, number[]>();
+    this.pages.forEach((sats, page) => {
+      (sats as number[]).forEach((sat, offset) => {
+        const district = page * DISTRICTS_PER_PAGE + offset;
+        // Sat 0 marks a district the on-chain module leaves unresolved
+        if (district > MAX_DISTRICT || sat === 0) {
+          return;
+        }
+        const districts = index.get(sat);
+        if (districts) {
+          districts.push(district);
+        } else {
+          index.set(sat, [district]);
+        }
+      });
+    });
+    this.satToDistricts = index;
+    return true;
+  }
+
+  // Districts whose bitmap is inscribed on the given sat; requires buildReverseIndex
+  findDistrictsBySat(sat: number): number[] {
+    if (!this.satToDistricts) {
+      throw new Error("OCI reverse index has not been built");
+    }
+    return this.satToDistricts.get(sat) ?? [];
+  }
+
+  // Implementation of the getBitmapSat function from the OCI script
+  async getBitmapSat(client: OrdClient, bitmapNumber: number, log: ConsolePrinter): Promise<number | null> {
+    if (bitmapNumber < 0) {
+      log('Error: bitmap number is below 0!', "error");
+      return null;
+    } else if (bitmapNumber > MAX_DISTRICT) {
+      log('Error: bitmap number is above 839,999!', "error");
+      return null;
+    }
+
+    // Determine which page this bitmap is in
+    const page = Math.floor(bitmapNumber / DISTRICTS_PER_PAGE);
+
+    // If the page has not yet been fetched and cached, then get it
+    if (!this.pages[page]) {
+      const success = await this.ensurePage(client, page, log);
+      if (!success) return null;
+    }
+
+    return (this.pages[page] as number[])[bitmapNumber % DISTRICTS_PER_PAGE];
+  }
+
+  // Implementation of the getBitmapSatIndex function from the OCI script
+  getBitmapSatIndex(bitmapNumber: number): number {
+    return OCI_SAT_INDICES[bitmapNumber] || 0;
+  }
+
+  // Implementation of the getBitmapInscriptionId function from the OCI script
+  async getBitmapInscriptionId(client: OrdClient, bitmapNumber: number, log: ConsolePrinter): Promise<string | null> {
+    // First get the sat
+    const sat = await this.getBitmapSat(client, bitmapNumber, log);
+    if (!sat) return null;
+
+    // Get inscription ID from sat endpoint
+    try {
+      const data = await client.getSatInscriptionAt(sat, this.getBitmapSatIndex(bitmapNumber));
+      return data.id;
+    } catch (error) {
+      log(`Error getting inscription ID: ${error instanceof Error ? error.message : String(error)}`, "error");
+      return null;
+    }
+  }
+}
@@ -0,0 +1,163 @@
+import { describe, expect, it } from "vitest";
+import {
+  buildPageFixture,
+  escapedJsonText,
+  flatListText,
+  nestedJsonText,
+  type OciPageFixture,
+  stringWrappedJsonText,
+} from "./__fixtures__/ociPages";
+import { decodeOciPage, expectedEntryCount, OciDecodeError, ociPageFormat } from "./ociDecoder";
+
+function expectDecodeError(page: number, text: string, message: string | RegExp) {
+  let thrown: unknown;
+  try {
+    decodeOciPage(page, text);
+  } catch (error) {
+    thrown = error;
+  }
+  expect(thrown).toBeInstanceOf(OciDecodeError);
+  expect((thrown as OciDecodeError).page).toBe(page);
+  expect((thrown as Error).message).toMatch(message);
+}
+
+// A nested-json page with one delta or index replaced
+function withEntry(fixture: OciPageFixture, list: "deltas" | "indices", position: number, value: unknown): string {
+  const copy: unknown[] = [...fixture[list]];
+  copy[position] = value;
+  return JSON.stringify(list === "deltas" ? [copy, fixture.indices] : [fixture.deltas, copy]);
+}
+
+describe("ociPageFormat", () => {
+  it("maps every page to the encoding it was inscribed in", () => {
+    expect([0, 1, 2, 3, 4, 5, 6, 7, 8].map(ociPageFormat)).toEqual([
+      "nested-json", "nested-json", "flat-list", "flat-list",
+      "escaped-json", "escaped-json", "escaped-json", "escaped-json", "escaped-json",
+    ]);
+  });
+
+  it("stops the last page at district 839,999", () => {
+    expect(expectedEntryCount(0)).toBe(100_000);
+    expect(expectedEntryCount(8)).toBe(40_000);
+  });
+});
+
+describe("decodeOciPage", () => {
+  const page0 = buildPageFixture(0);
+
+  describe("nested-json pages", () => {
+    it("decodes a JSON document", () => {
+      const decoded = decodeOciPage(0, nestedJsonText(page0));
+      expect(decoded.format).toBe("nested-json");
+      expect(decoded.sats).toEqual(page0.sats);
+      expect(decoded.unresolved).toEqual([]);
+    });
+
+    it("decodes a document wrapped in a JSON string", () => {
+      const page1 = buildPageFixture(1);
+      expect(decodeOciPage(1, stringWrappedJsonText(page1)).sats).toEqual(page1.sats);
+    });
+
+    it("accepts numbers written as strings", () => {
+      const text = JSON.stringify([page0.deltas.map(String), page0.indices.map(String)]);
+      expect(decodeOciPage(0, text).sats).toEqual(page0.sats);
+    });
+  });
+
+  describe("flat-list pages", () => {
+    const page2 = buildPageFixture(2);
+
+    it("drops the last delta and index the way the on-chain slicing does", () => {
+      const decoded = decodeOciPage(2, flatListText(page2));
+      const dropped = page2.indices[page2.indices.length - 1];
+
+      expect(decoded.format).toBe("flat-list");
+      expect(decoded.unresolved).toEqual([dropped]);
+      expect(decoded.sats[dropped]).toBe(0);
+      expect(decoded.sats.filter((_, offset) => offset !== dropped))
+        .toEqual(page2.sats.filter((_, offset) => offset !== dropped));
+    });
+
+    it("ignores values the on-chain slicing never reads", () => {
+      const text = flatListText(page2);
+      const decoded = decodeOciPage(2, text);
+      expect(decodeOciPage(2, text.slice(0, text.lastIndexOf(",")))).toEqual(decoded);
+      expect(decodeOciPage(2, `${text},1,2`)).toEqual(decoded);
+    });
+
+    it("rejects a list too short to fill both slices", () => {
+      const text = flatListText(buildPageFixture(3));
+      const short = text.split(",").slice(0, -2).join(",");
+      expectDecodeError(3, short, /expected 99999 entries, got 99999 deltas and 99998 indices/);
+    });
+  });
+
+  describe("escaped-json pages", () => {
+    it("decodes arrays with literal \\n escapes", () => {
+      const page4 = buildPageFixture(4);
+      const decoded = decodeOciPage(4, escapedJsonText(page4));
+      expect(decoded.format).toBe("escaped-json");
+      expect(decoded.sats).toEqual(page4.sats);
+    });
+
+    it("decodes the short last page", () => {
+      const page8 = buildPageFixture(8);
+      const decoded = decodeOciPage(8, escapedJsonText(page8));
+      expect(decoded.sats).toHaveLength(40_000);
+      expect(decoded.sats).toEqual(page8.sats);
+    });
+  });
+
+  describe("invariants", () => {
+    it("rejects pages that don't exist", () => {
+      expectDecodeError(-1, "[]", /no such page/);
+      expectDecodeError(9, "[]", /no such page/);
+      expectDecodeError(1.5, "[]", /no such page/);
+    });
+
+    it("rejects text that doesn't parse", () => {
+      expectDecodeError(0, "[[1,2],", /malformed nested-json/);
+      expectDecodeError(2, "1,2,,3", /malformed flat-list/);
+      expectDecodeError(5, "{", /malformed escaped-json/);
+    });
+
+    it("rejects documents that aren't a pair of arrays", () => {
+      expectDecodeError(0, JSON.stringify({ deltas: [], indices: [] }), /expected a \[deltas, indices\] pair/);
+      expectDecodeError(0, JSON.stringify([page0.deltas]), /expected a \[deltas, indices\] pair/);
+      expectDecodeError(4, JSON.stringify([page0.deltas, page0.indices, []]), /expected a \[deltas, indices\] pair/);
+    });
+
+    it("rejects the wrong number of entries", () => {
+      const text = JSON.stringify([page0.deltas.slice(1), page0.indices]);
+      expectDecodeError(0, text, /expected 100000 entries, got 99999 deltas and 100000 indices/);
+      expectDecodeError(8, nestedJsonText(page0), /expected 40000 entries/);
+    });
+
+    it("rejects values that aren't integers", () => {
+      expectDecodeError(0, withEntry(page0, "deltas", 10, 1.5), /delta 10 is not an integer: 1.5/);
+      expectDecodeError(0, withEntry(page0, "deltas", 10, "ten"), /delta 10 is not an integer: "ten"/);
+      expectDecodeError(0, withEntry(page0, "indices", 3, null), /index 3 is not an integer: null/);
+    });
+
+    it("rejects negative deltas, which would break the ascending order", () => {
+      expectDecodeError(0, withEntry(page0, "deltas", 5, -1), /delta 5 is negative \(-1\); sats must be ascending/);
+    });
+
+    it("rejects a negative first sat", () => {
+      expectDecodeError(0, withEntry(page0, "deltas", 0, -1), /reconstructed sat 0 is out of range/);
+    });
+
+    it("rejects sats beyond the safe integer range", () => {
+      expectDecodeError(0, withEntry(page0, "deltas", 1, Number.MAX_SAFE_INTEGER), /reconstructed sat 1 is out of range/);
+    });
+
+    it("rejects indices outside the page", () => {
+      expectDecodeError(0, withEntry(page0, "indices", 7, 100_000), /index 7 is out of range: 100000/);
+      expectDecodeError(0, withEntry(page0, "indices", 7, -1), /index 7 is out of range: -1/);
+    });
+
+    it("rejects a district offset that appears twice", () => {
+      expectDecodeError(0, withEntry(page0, "indices", 1, page0.indices[0]), /district offset 0 appears twice/);
+    });
+  });
+});
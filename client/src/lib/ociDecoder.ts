@@ -0,0 +1,148 @@
+// Decoder for the OCI district pages.
+// Each page stores the sats of up to 100,000 districts as two arrays: the sats
+// sorted ascending and delta-encoded, and the district offset each sorted sat
+// belongs to. The pages were inscribed in three different text encodings.
+// Decoding follows the on-chain module exactly, including where it drops data.
+
+export const DISTRICTS_PER_PAGE = 100000;
+export const MAX_DISTRICT = 839999;
+export const OCI_PAGE_COUNT = 9;
+
+export type OciPageFormat = "nested-json" | "flat-list" | "escaped-json";
+
+export interface DecodedOciPage {
+  page: number;
+  format: OciPageFormat;
+  // sats[i] is the sat of district page * 100,000 + i, or 0 if unresolved
+  sats: number[];
+  // Offsets the on-chain module leaves at 0 because its slicing drops them
+  unresolved: number[];
+}
+
+export class OciDecodeError extends Error {
+  constructor(public readonly page: number, message: string) {
+    super(`page ${page}: ${message}`);
+    this.name = "OciDecodeError";
+  }
+}
+
+type RawPage = [unknown[], unknown[]];
+
+export function ociPageFormat(page: number): OciPageFormat {
+  if (page === 0 || page === 1) return "nested-json";
+  if (page === 2 || page === 3) return "flat-list";
+  return "escaped-json";
+}
+
+// Districts on a page; the last page stops at MAX_DISTRICT
+export function expectedEntryCount(page: number): number {
+  return Math.min(DISTRICTS_PER_PAGE, MAX_DISTRICT + 1 - page * DISTRICTS_PER_PAGE);
+}
+
+// Pages 0-1: a JSON [[deltas], [indices]] document, sometimes itself wrapped in a JSON string
+function parseNestedJson(page: number, text: string): RawPage {
+  let data: unknown = JSON.parse(text);
+  if (typeof data === "string") {
+    data = JSON.parse(data);
+  }
+  return expectPair(page, data);
+}
+
+// Pages 2-3: a bare comma-separated list, the deltas followed by the indices.
+// The on-chain module slices (0, 99999) and (100000, 199999), which drops the
+// last entry of each half, so one district per page is left unresolved. The
+// slicing is copied as is, without checking the list length, so a page decodes
+// here exactly when it does on-chain; a list too short to fill both slices fails
+// the entry count check instead.
+function parseFlatList(page: number, text: string): RawPage {
+  const values: unknown[] = JSON.parse(`[${text}]`);
+  const half = expectedEntryCount(page);
+  return [values.slice(0, half - 1), values.slice(half, half * 2 - 1)];
+}
+
+// Entries each format yields for a page
+function decodedEntryCount(page: number, format: OciPageFormat): number {
+  return expectedEntryCount(page) - (format === "flat-list" ? 1 : 0);
+}
+
+// Pages 4-8: JSON with literal "\n" escapes and indentation left inside the arrays
+function parseEscapedJson(page: number, text: string): RawPage {
+  return expectPair(page, JSON.parse(text.replace(/\\n\s*/g, "")));
+}
+
+function expectPair(page: number, data: unknown): RawPage {
+  if (!Array.isArray(data) || data.length !== 2 || !Array.isArray(data[0]) || !Array.isArray(data[1])) {
+    throw new OciDecodeError(page, "expected a [deltas, indices] pair of arrays");
+  }
+  return [data[0], data[1]];
+}
+
+function toInteger(page: number, what: string, value: unknown, position: number): number {
+  const number = typeof value === "string" ? Number(value) : value;
+  if (typeof number !== "number" || !Number.isSafeInteger(number)) {
+    throw new OciDecodeError(page, `${what} ${position} is not an integer: ${JSON.stringify(value)}`);
+  }
+  return number;
+}
+
+// Decode one page and check its invariants: the expected number of entries,
+// non-negative deltas (so the reconstructed sats are monotonic), and indices
+// that cover every district on the page exactly once, apart from the offsets
+// the flat-list slicing drops.
+export function decodeOciPage(page: number, text: string): DecodedOciPage {
+  if (!Number.isInteger(page) || page < 0 || page >= OCI_PAGE_COUNT) {
+    throw new OciDecodeError(page, "no such page");
+  }
+
+  const format = ociPageFormat(page);
+  let raw: RawPage;
+  try {
+    raw = format === "nested-json"
+      ? parseNestedJson(page, text)
+      : format === "flat-list"
+        ? parseFlatList(page, text)
+        : parseEscapedJson(page, text);
+  } catch (error) {
+    if (error instanceof OciDecodeError) throw error;
+    throw new OciDecodeError(page, `malformed ${format}: ${error instanceof Error ? error.message : String(error)}`);
+  }
+
+  const [deltas, indices] = raw;
+  const expected = expectedEntryCount(page);
+  const entries = decodedEntryCount(page, format);
+  if (deltas.length !== entries || indices.length !== entries) {
+    throw new OciDecodeError(page, `expected ${entries} entries, got ${deltas.length} deltas and ${indices.length} indices`);
+  }
+
+  const sats: number[] = new Array(expected).fill(0);
+  const seen = new Uint8Array(expected);
+  let sat = 0;
+
+  for (let i = 0; i < entries; i++) {
+    const delta = toInteger(page, "delta", deltas[i], i);
+    if (i > 0 && delta < 0) {
+      throw new OciDecodeError(page, `delta ${i} is negative (${delta}); sats must be ascending`);
+    }
+    sat = i === 0 ? delta : sat + delta;
+    if (sat < 0 || !Number.isSafeInteger(sat)) {
+      throw new OciDecodeError(page, `reconstructed sat ${i} is out of range`);
+    }
+
+    const index = toInteger(page, "index", indices[i], i);
+    if (index < 0 || index >= expected) {
+      throw new OciDecodeError(page, `index ${i} is out of range: ${index}`);
+    }
+    if (seen[index]) {
+      throw new OciDecodeError(page, `district offset ${index} appears twice`);
+    }
+    seen[index] = 1;
+    sats[index] = sat;
+  }
+
+  // Every index was in range and unique, so only the dropped offsets are missing
+  const unresolved: number[] = [];
+  seen.forEach((covered, offset) => {
+    if (!covered) unresolved.push(offset);
+  });
+  return { page, format, sats, unresolved };
+}
@@ -0,0 +1,90 @@
+// Runs inside the sandboxed iframe created by OciSandbox, which has an opaque
+// origin and a Content-Security-Policy that only lets scripts and requests reach
+// the ord server. On top of that the module sees a fetch shim that serves ord
+// content and recursive endpoints only, and no other network or storage APIs.
+// Loaded as text and inlined into the iframe, so it is plain JavaScript.
+"use strict";
+
+(() => {
+  let moduleExports = null;
+  let connected = false;
+
+  // These are accessors or read-only on the global object, so assigning to them
+  // throws in strict mode; redefine them instead
+  function replaceGlobal(name, value) {
+    try {
+      Object.defineProperty(globalThis, name, { value, writable: false, configurable: false });
+    } catch {
+      // Not configurable in this browser; the CSP and opaque origin still apply
+    }
+  }
+
+  // Only ord paths are reachable, and only through the configured server
+  function installFetchShim(baseUrl) {
+    const origin = new URL(baseUrl).origin;
+    const realFetch = globalThis.fetch.bind(globalThis);
+
+    replaceGlobal("fetch", async (input, init) => {
+      const raw = typeof input === "string" ? input : input instanceof URL ? input.href : input.url;
+      const url = new URL(raw, origin);
+      if (url.origin !== origin || !/^\/(content|r)\//.test(url.pathname)) {
+        throw new TypeError(`Sandbox blocked request to ${raw}`);
+      }
+      if (init && init.method && init.method.toUpperCase() !== "GET") {
+        throw new TypeError(`Sandbox blocked ${init.method} request to ${raw}`);
+      }
+      return realFetch(`${baseUrl}${url.pathname}${url.search}`, { cache: init && init.cache });
+    });
+
+    ["XMLHttpRequest", "WebSocket", "EventSource", "indexedDB", "caches", "localStorage", "sessionStorage"]
+      .forEach(name => replaceGlobal(name, undefined));
+  }
+
+  // A module evaluated from a blob: URL cannot resolve root-relative imports,
+  // so point /content/... specifiers at the configured server.
+  function absolutizeImports(script, baseUrl) {
+    return script.replace(/(\bfrom\s*|\bimport\s*\(?\s*)(["'])\/content\//g, `$1$2${baseUrl}/content/`);
+  }
+
+  async function handle(request) {
+    switch (request.type) {
+      case "init": {
+        installFetchShim(request.baseUrl);
+        const blob = new Blob([absolutizeImports(request.script, request.baseUrl)], { type: "text/javascript" });
+        const url = URL.createObjectURL(blob);
+        try {
+          moduleExports = await import(url);
+        } finally {
+          URL.revokeObjectURL(url);
+        }
+        return { type: "ready", id: request.id, exports: Object.keys(moduleExports) };
+      }
+
+      case "call": {
+        const fn = moduleExports && moduleExports[request.name];
+        if (typeof fn !== "function") {
+          throw new Error(`Module does not export a function named ${request.name}`);
+        }
+        return { type: "result", id: request.id, value: await fn(...request.args) };
+      }
+
+      default:
+        throw new Error(`Unknown sandbox request ${request.type}`);
+    }
+  }
+
+  // The page hands over a MessagePort once; everything else goes through it
+  window.addEventListener("message", event => {
+    const port = event.ports[0];
+    if (connected || !port || event.source !== window.parent) return;
+    connected = true;
+
+    port.onmessage = async ({ data: request }) => {
+      try {
+        port.postMessage(await handle(request));
+      } catch (error) {
+        port.postMessage({ type: "error", id: request.id, message: error instanceof Error ? error.message : String(error) });
+      }
+    };
+  });
+})();
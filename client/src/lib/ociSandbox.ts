@@ -0,0 +1,112 @@
+// Runs the fetched OCI inscription in a hidden iframe, sandboxed without
+// allow-same-origin, so its real exports can be called without giving remote
+// code access to the page, its storage or any server but the ord one.
+
+import frameScript from "./ociSandbox.frame.js?raw";
+
+export type SandboxRequest =
+  | { type: "init"; id: number; script: string; baseUrl: string }
+  | { type: "call"; id: number; name: string; args: unknown[] };
+
+export type SandboxResponse =
+  | { type: "ready"; id: number; exports: string[] }
+  | { type: "result"; id: number; value: unknown }
+  | { type: "error"; id: number; message: string };
+
+// The frame may only run inline and blob: scripts, import from the ord server and fetch from it
+function frameDocument(ordOrigin: string): string {
+  const policy = `default-src 'none'; script-src 'unsafe-inline' blob: ${ordOrigin}; connect-src ${ordOrigin}`;
+  return `<!doctype html><meta http-equiv="Content-Security-Policy" content="${policy}"><script>${frameScript}</script>`;
+}
+
+// Requests before the sandbox assigns them an id
+type Unsent<T> = T extends unknown ? Omit<T, "id"> : never;
+
+// Generous, since a call may have to download and parse a district page
+const CALL_TIMEOUT = 60_000;
+
+export class OciSandbox {
+  exports: string[] = [];
+
+  private nextId = 0;
+  private pending = new Map<number, { resolve: (response: SandboxResponse) => void; reject: (error: Error) => void }>();
+
+  private constructor(
+    private readonly frame: HTMLIFrameElement,
+    private readonly port: MessagePort,
+    readonly baseUrl: string,
+  ) {
+    port.onmessage = (event: MessageEvent<SandboxResponse>) => {
+      const response = event.data;
+      const waiter = this.pending.get(response.id);
+      if (!waiter) return;
+      this.pending.delete(response.id);
+      if (response.type === "error") {
+        waiter.reject(new Error(response.message));
+      } else {
+        waiter.resolve(response);
+      }
+    };
+    port.onmessageerror = () => {
+      const error = new Error("Sandbox failed: a message could not be read");
+      this.pending.forEach(waiter => waiter.reject(error));
+      this.pending.clear();
+    };
+  }
+
+  // Evaluate the module and return a sandbox exposing its exports
+  static async create(script: string, baseUrl: string): Promise<OciSandbox> {
+    // The frame's origin is opaque, so it needs the server as an absolute URL
+    const absoluteBase = /^https?:\/\//.test(baseUrl) ? baseUrl : `${window.location.origin}${baseUrl}`;
+    const frame = document.createElement("iframe");
+    frame.setAttribute("sandbox", "allow-scripts");
+    frame.hidden = true;
+    frame.srcdoc = frameDocument(new URL(absoluteBase).origin);
+
+    const loaded = new Promise(resolve => frame.addEventListener("load", resolve, { once: true }));
+    document.body.appendChild(frame);
+    await loaded;
+
+    const channel = new MessageChannel();
+    frame.contentWindow!.postMessage("connect", "*", [channel.port2]);
+    const sandbox = new OciSandbox(frame, channel.port1, baseUrl);
+    try {
+      const ready = await sandbox.send({ type: "init", script, baseUrl: absoluteBase });
+      if (ready.type === "ready") {
+        sandbox.exports = ready.exports;
+      }
+      return sandbox;
+    } catch (error) {
+      sandbox.terminate();
+      throw error;
+    }
+  }
+
+  async call<T>(name: string, ...args: unknown[]): Promise<T> {
+    const response = await this.send({ type: "call", name, args });
+    return (response.type === "result" ? response.value : undefined) as T;
+  }
+
+  terminate() {
+    this.port.close();
+    this.frame.remove();
+    const error = new Error("Sandbox terminated");
+    this.pending.forEach(waiter => waiter.reject(error));
+    this.pending.clear();
+  }
+
+  private send(request: Unsent<SandboxRequest>): Promise<SandboxResponse> {
+    const id = this.nextId++;
+    return new Promise((resolve, reject) => {
+      const timer = setTimeout(() => {
+        this.pending.delete(id);
+        reject(new Error(`Sandbox call timed out after ${CALL_TIMEOUT / 1000}s`));
+      }, CALL_TIMEOUT);
+      this.pending.set(id, {
+        resolve: response => { clearTimeout(timer); resolve(response); },
+        reject: error => { clearTimeout(timer); reject(error); },
+      });
+      this.port.postMessage({ ...request, id } as SandboxRequest);
+    });
+  }
+}
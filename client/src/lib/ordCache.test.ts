@@ -0,0 +1,104 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import type { Endpoint } from "./connectivity";
+import { cachePolicy, OrdCache } from "./ordCache";
+
+const ORD: Endpoint = { name: "ORD", url: "", builtin: true, network: null };
+const PROXY: Endpoint = { name: "PROXY", url: "/api/ord", builtin: true, network: null };
+
+// Answers every request with the URL and how many times it was fetched
+function fakeServer() {
+  const fetched: string[] = [];
+  const fetch = async (url: string) => {
+    fetched.push(url);
+    const body = url.endsWith("/r/blockheight") ? "1000" : `${url} #${fetched.length}`;
+    return new Response(body, { headers: { "Content-Type": "text/plain" } });
+  };
+  return { fetch, fetched };
+}
+
+beforeEach(() => {
+  vi.stubGlobal("window", { location: { origin: "http://localhost:5000" } });
+});
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+describe("cachePolicy", () => {
+  it("keeps content, transactions and buried blocks for good", () => {
+    expect(cachePolicy("/content/abci0", null)).toEqual({ kind: "immutable" });
+    expect(cachePolicy(`/r/tx/${"a".repeat(64)}`, null)).toEqual({ kind: "immutable" });
+    expect(cachePolicy("/r/blockinfo/994", 1000)).toEqual({ kind: "immutable" });
+    expect(cachePolicy("/r/blockinfo/995", 1000)).toMatchObject({ kind: "volatile" });
+    expect(cachePolicy("/r/blockinfo/994", null)).toMatchObject({ kind: "volatile" });
+    expect(cachePolicy("/status", null)).toEqual({ kind: "none" });
+  });
+});
+
+describe("OrdCache", () => {
+  it("serves a repeated request from memory", async () => {
+    const cache = new OrdCache();
+    const server = fakeServer();
+    const fetch = cache.wrap(server.fetch, ORD, "mainnet");
+
+    const first = await (await fetch("/r/blockinfo/100")).text();
+    const second = await (await fetch("/r/blockinfo/100")).text();
+    expect(second).toBe(first);
+    expect(server.fetched).toEqual(["/r/blockinfo/100"]);
+  });
+
+  it("keeps networks apart, since the URL doesn't say which chain it is for", async () => {
+    const cache = new OrdCache();
+    const server = fakeServer();
+    await cache.wrap(server.fetch, ORD, "mainnet")("/r/blockinfo/100");
+    const signet = await cache.wrap(server.fetch, ORD, "signet")("/r/blockinfo/100");
+
+    expect(await signet.text()).toBe("/r/blockinfo/100 #2");
+    expect(server.fetched).toHaveLength(2);
+    expect((await cache.entries()).map(entry => entry.network).sort()).toEqual(["mainnet", "signet"]);
+  });
+
+  it("keeps endpoints apart", async () => {
+    const cache = new OrdCache();
+    const server = fakeServer();
+    const backup: Endpoint = { name: "BACKUP", url: "", builtin: false, network: "mainnet" };
+    await cache.wrap(server.fetch, ORD, "mainnet")("/content/abci0");
+    await cache.wrap(server.fetch, backup, "mainnet")("/content/abci0");
+    expect(server.fetched).toHaveLength(2);
+  });
+
+  it("classifies requests below the endpoint's prefix", async () => {
+    const cache = new OrdCache();
+    const server = fakeServer();
+    const fetch = cache.wrap(server.fetch, PROXY, "mainnet");
+    await fetch("/api/ord/content/abci0");
+    await fetch("/api/ord/content/abci0");
+    expect(server.fetched).toHaveLength(1);
+    expect((await cache.stats()).immutableEntries).toBe(1);
+  });
+
+  it("tracks the chain tip per endpoint and network", async () => {
+    const cache = new OrdCache();
+    const server = fakeServer();
+    const mainnet = cache.wrap(server.fetch, ORD, "mainnet");
+    const signet = cache.wrap(server.fetch, ORD, "signet");
+
+    await mainnet("/r/blockheight");
+    await mainnet("/r/blockinfo/100");
+    await signet("/r/blockinfo/100");
+
+    // Buried on mainnet, whose tip is known; not yet known to be on signet
+    const stats = await cache.stats();
+    expect(stats.immutableEntries).toBe(1);
+    expect(stats.volatileEntries).toBe(2);
+  });
+
+  it("leaves other methods alone", async () => {
+    const cache = new OrdCache();
+    const server = fakeServer();
+    const fetch = cache.wrap(server.fetch, ORD, "mainnet");
+    await fetch("/content/abci0", { method: "HEAD" });
+    await fetch("/content/abci0", { method: "HEAD" });
+    expect(server.fetched).toHaveLength(2);
+  });
+});
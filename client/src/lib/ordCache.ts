@@ -0,0 +1,285 @@
+import type { Endpoint, Network } from "./connectivity";
+import { idbClear, idbCount, idbGet, idbGetAll, idbPut, isIndexedDbAvailable } from "./idb";
+import type { OrdFetch } from "./ordClient";
+
+// Response cache that sits under OrdClient's fetch.
+// Ord data splits into immutable responses (inscription content, transactions,
+// buried blocks), which are persisted in IndexedDB, and volatile ones (chain tip,
+// UTXOs, sat ownership), which are kept in memory for a short TTL.
+// Entries are kept per endpoint and network: ORD and PROXY URLs don't say
+// which chain they serve, so the same URL means a different block on signet.
+
+export type CachePolicy =
+  | { kind: "immutable" }
+  | { kind: "volatile"; ttl: number }
+  | { kind: "none" };
+
+export interface CachedResponse {
+  url: string;
+  endpoint: string;
+  network: Network;
+  status: number;
+  contentType: string | null;
+  body: ArrayBuffer;
+  storedAt: number;
+}
+
+export interface CacheStats {
+  memoryHits: number;
+  persistentHits: number;
+  misses: number;
+  volatileEntries: number;
+  immutableEntries: number;
+  persistentEntries: number;
+  memoryBytes: number;
+}
+
+// Blocks this deep are considered final
+const BURIED_DEPTH = 6;
+
+// Larger bodies (e.g. video inscriptions) are not worth keeping around
+const MAX_ENTRY_BYTES = 5 * 1024 * 1024;
+
+const TIP_TTL = 10_000;
+const SHORT_TTL = 30_000;
+const INSCRIPTION_TTL = 60_000;
+
+const HEX64 = /^[0-9a-fA-F]{64}$/;
+
+export function cachePolicy(path: string, tipHeight: number | null): CachePolicy {
+  const segments = path.split("/").filter(Boolean);
+
+  if (segments[0] === "content") {
+    return { kind: "immutable" };
+  }
+  if (segments[0] !== "r") {
+    return { kind: "none" };
+  }
+
+  const [, endpoint, arg] = segments;
+  switch (endpoint) {
+    case "undelegated-content":
+    case "metadata":
+    case "tx":
+      return { kind: "immutable" };
+
+    case "blockheight":
+    case "height":
+    case "blocktime":
+      return { kind: "volatile", ttl: TIP_TTL };
+
+    case "blockhash":
+    case "blockinfo":
+      if (arg === undefined || arg === "tip") {
+        return { kind: "volatile", ttl: TIP_TTL };
+      }
+      if (HEX64.test(arg)) {
+        return { kind: "immutable" };
+      }
+      if (tipHeight !== null && /^\d+$/.test(arg) && Number(arg) <= tipHeight - BURIED_DEPTH) {
+        return { kind: "immutable" };
+      }
+      return { kind: "volatile", ttl: SHORT_TTL };
+
+    case "inscription":
+    case "children":
+    case "parents":
+      return { kind: "volatile", ttl: INSCRIPTION_TTL };
+
+    case "sat":
+    case "utxo":
+      return { kind: "volatile", ttl: SHORT_TTL };
+
+    default:
+      return { kind: "none" };
+  }
+}
+
+function toResponse(entry: CachedResponse): Response {
+  const headers: Record<string, string> = {};
+  if (entry.contentType) {
+    headers["Content-Type"] = entry.contentType;
+  }
+  return new Response(entry.body.slice(0), { status: entry.status, headers });
+}
+
+// The endpoint and network a response was fetched for, as "<network> <endpoint>"
+function scopeKey(endpoint: string, network: Network): string {
+  return `${network} ${endpoint}`;
+}
+
+export class OrdCache {
+  // By scope key and URL
+  private memory = new Map<string, CachedResponse & { expiresAt: number }>();
+  // Chain tip per scope key, from the last height response
+  private tipHeights = new Map<string, number>();
+  private hits = { memory: 0, persistent: 0 };
+  private misses = 0;
+
+  // Wrap a fetch implementation for `endpoint` so its GET requests go through the
+  // cache. Requests are classified without the endpoint's prefix, e.g. /api/ord.
+  wrap(inner: OrdFetch, endpoint: Endpoint, network: Network): OrdFetch {
+    const scope = scopeKey(endpoint.name, network);
+    return async (url, init) => {
+      const method = (init?.method ?? "GET").toUpperCase();
+      const path = ordPath(url, endpoint.url);
+      const policy = method === "GET" ? cachePolicy(path, this.tipHeights.get(scope) ?? null) : { kind: "none" as const };
+      if (policy.kind === "none") {
+        return inner(url, init);
+      }
+
+      const key = `${scope} ${url}`;
+      const cached = await this.lookup(key);
+      if (cached) {
+        return toResponse(cached);
+      }
+      this.misses++;
+
+      const response = await inner(url, init);
+      if (response.ok) {
+        await this.store(key, { url, endpoint: endpoint.name, network }, path, response.clone(), policy);
+      }
+      return response;
+    };
+  }
+
+  private async lookup(key: string): Promise<CachedResponse | undefined> {
+    const inMemory = this.memory.get(key);
+    if (inMemory) {
+      if (inMemory.expiresAt > Date.now()) {
+        this.hits.memory++;
+        return inMemory;
+      }
+      this.memory.delete(key);
+    }
+
+    if (!isIndexedDbAvailable()) {
+      return undefined;
+    }
+    try {
+      const persisted = await idbGet<CachedResponse>("responses", key);
+      if (persisted) {
+        this.hits.persistent++;
+        this.memory.set(key, { ...persisted, expiresAt: Infinity });
+      }
+      return persisted;
+    } catch (e) {
+      console.error("Cache lookup failed:", e);
+      return undefined;
+    }
+  }
+
+  private async store(
+    key: string,
+    source: Pick<CachedResponse, "url" | "endpoint" | "network">,
+    path: string,
+    response: Response,
+    policy: CachePolicy,
+  ) {
+    const body = await response.arrayBuffer();
+    if (body.byteLength > MAX_ENTRY_BYTES) {
+      return;
+    }
+
+    const entry: CachedResponse = {
+      ...source,
+      status: response.status,
+      contentType: response.headers.get("Content-Type"),
+      body,
+      storedAt: Date.now(),
+    };
+
+    // Height responses tell us which blocks are buried
+    const endpoint = path.split("/")[2];
+    if (endpoint === "blockheight" || endpoint === "height") {
+      const height = Number(new TextDecoder().decode(body).trim());
+      if (!isNaN(height)) {
+        this.tipHeights.set(scopeKey(source.endpoint, source.network), height);
+      }
+    }
+
+    if (policy.kind === "volatile") {
+      this.memory.set(key, { ...entry, expiresAt: entry.storedAt + policy.ttl });
+      return;
+    }
+
+    this.memory.set(key, { ...entry, expiresAt: Infinity });
+    if (isIndexedDbAvailable()) {
+      try {
+        await idbPut("responses", key, entry);
+      } catch (e) {
+        console.error("Cache write failed:", e);
+      }
+    }
+  }
+
+  async stats(): Promise<CacheStats> {
+    let volatileEntries = 0;
+    let immutableEntries = 0;
+    let memoryBytes = 0;
+    this.memory.forEach(entry => {
+      if (entry.expiresAt === Infinity) {
+        immutableEntries++;
+      } else if (entry.expiresAt > Date.now()) {
+        volatileEntries++;
+      } else {
+        return;
+      }
+      memoryBytes += entry.body.byteLength;
+    });
+
+    let persistentEntries = 0;
+    if (isIndexedDbAvailable()) {
+      try {
+        persistentEntries = await idbCount("responses");
+      } catch (e) {
+        console.error("Cache count failed:", e);
+      }
+    }
+
+    return {
+      memoryHits: this.hits.memory,
+      persistentHits: this.hits.persistent,
+      misses: this.misses,
+      volatileEntries,
+      immutableEntries,
+      persistentEntries,
+      memoryBytes,
+    };
+  }
+
+  async clear(): Promise<void> {
+    this.memory.clear();
+    this.tipHeights.clear();
+    this.hits = { memory: 0, persistent: 0 };
+    this.misses = 0;
+    if (isIndexedDbAvailable()) {
+      await idbClear("responses");
+    }
+  }
+
+  // Every persisted entry, plus live volatile ones
+  async entries(): Promise<CachedResponse[]> {
+    const byKey = new Map<string, CachedResponse>();
+    const keyOf = (entry: CachedResponse) => `${scopeKey(entry.endpoint, entry.network)} ${entry.url}`;
+    if (isIndexedDbAvailable()) {
+      (await idbGetAll<CachedResponse>("responses")).forEach(entry => byKey.set(keyOf(entry), entry));
+    }
+    this.memory.forEach((entry, key) => {
+      if (entry.expiresAt > Date.now() && !byKey.has(key)) {
+        const { expiresAt, ...rest } = entry;
+        byKey.set(key, rest);
+      }
+    });
+    return Array.from(byKey.values());
+  }
+}
+
+// Path of a request below its endpoint's prefix, e.g. /r/blockheight for /api/ord/r/blockheight
+function ordPath(url: string, baseUrl: string): string {
+  const path = new URL(url, window.location.origin).pathname;
+  const prefix = new URL(baseUrl || "/", window.location.origin).pathname.replace(/\/+$/, "");
+  return prefix && path.startsWith(`${prefix}/`) ? path.slice(prefix.length) : path;
+}
+
+export const ordCache = new OrdCache();
@@ -0,0 +1,57 @@
+import { describe, expect, it } from "vitest";
+import { OrdClient, OrdRequestError } from "./ordClient";
+
+const TXID = "60bcf821240064a9c55225c4f01711b0ebbcab39aa3fafeefe4299ab158536fa";
+const ID = `${TXID}i0`;
+
+// A client whose server answers every request from `routes`, and 404 otherwise
+function clientFor(routes: Record<string, () => Response>) {
+  const requested: string[] = [];
+  const client = new OrdClient({
+    baseUrl: "https://ord.example",
+    fetch: async url => {
+      requested.push(url);
+      const route = routes[url.replace("https://ord.example", "")];
+      return route ? route() : new Response("not found", { status: 404 });
+    },
+  });
+  return { client, requested };
+}
+
+describe("getMetadata", () => {
+  it("returns the body, or null when the inscription has none", async () => {
+    const { client } = clientFor({ [`/r/metadata/${ID}`]: () => new Response(`"a1676e616d65"`) });
+    expect(await client.getMetadata(ID)).toBe(`"a1676e616d65"`);
+    expect(await client.getMetadata(`${TXID}i1`)).toBeNull();
+  });
+
+  it("throws for errors other than 404", async () => {
+    const { client } = clientFor({ [`/r/metadata/${ID}`]: () => new Response("oops", { status: 500 }) });
+    const error = await client.getMetadata(ID).catch(e => e);
+    expect(error).toBeInstanceOf(OrdRequestError);
+    expect(error).toMatchObject({ status: 500, url: `https://ord.example/r/metadata/${ID}` });
+  });
+});
+
+describe("getTransaction", () => {
+  it("wraps the hex the server returns", async () => {
+    const { client } = clientFor({ [`/r/tx/${TXID}`]: () => new Response(`"0100000000"`) });
+    expect(await client.getTransaction(TXID)).toEqual({ txid: TXID, hex: "0100000000", size: 5 });
+  });
+
+  it("throws when the transaction is unknown", async () => {
+    const { client } = clientFor({});
+    await expect(client.getTransaction(TXID)).rejects.toThrow("Server responded with status 404");
+  });
+});
+
+describe("getParentInscriptions", () => {
+  it("reads a page of parent details", async () => {
+    const parent = { charms: [], fee: 1, height: 2, id: ID, number: 3, output: `${TXID}:0`, sat: null, satpoint: `${TXID}:0:0`, timestamp: 4 };
+    const { client, requested } = clientFor({
+      [`/r/parents/${ID}/inscriptions/2`]: () => Response.json({ parents: [parent], more: false, page: 2 }),
+    });
+    expect(await client.getParentInscriptions(ID, 2)).toEqual({ parents: [parent], more: false, page: 2 });
+    expect(requested).toEqual([`https://ord.example/r/parents/${ID}/inscriptions/2`]);
+  });
+});
@@ -0,0 +1,304 @@
+// Typed client for the ord recursive endpoints.
+// Every request is built relative to `baseUrl`, so the same client works against
+// a local ord server ("") or a remote one ("https://ordinals.com").
+
+export type OrdFetch = (url: string, init?: RequestInit) => Promise<Response>;
+
+export interface OrdClientOptions {
+  baseUrl: string;
+  fetch?: OrdFetch;
+}
+
+export interface BlockInfo {
+  average_fee: number;
+  average_fee_rate: number;
+  bits: number;
+  chainwork: string;
+  confirmations: number;
+  difficulty: number;
+  hash: string;
+  feerate_percentiles: number[];
+  height: number;
+  max_fee: number;
+  max_fee_rate: number;
+  max_tx_size: number;
+  median_fee: number;
+  median_time: number | null;
+  merkle_root: string;
+  min_fee: number;
+  min_fee_rate: number;
+  next_block: string | null;
+  nonce: number;
+  previous_block: string | null;
+  subsidy: number;
+  target: string;
+  timestamp: number;
+  total_fee: number;
+  total_size: number;
+  total_weight: number;
+  transaction_count: number;
+  version: number;
+}
+
+export interface InscriptionInfo {
+  charms: string[];
+  content_type: string | null;
+  content_length: number | null;
+  delegate: string | null;
+  fee: number;
+  height: number;
+  id: string;
+  number: number;
+  output: string;
+  sat: number | null;
+  satpoint: string;
+  timestamp: number;
+  value: number | null;
+  address: string | null;
+}
+
+// An inscription as listed by /r/children/<id>/inscriptions and /r/parents/<id>/inscriptions
+export interface RelatedInscriptionInfo {
+  charms: string[];
+  fee: number;
+  height: number;
+  id: string;
+  number: number;
+  output: string;
+  sat: number | null;
+  satpoint: string;
+  timestamp: number;
+}
+
+// Paginated list of inscription IDs, as returned by /r/children, /r/parents and /r/sat
+export interface InscriptionIdPage {
+  ids: string[];
+  more: boolean;
+  page: number;
+}
+
+export interface ChildInscriptionsPage {
+  children: RelatedInscriptionInfo[];
+  more: boolean;
+  page: number;
+}
+
+export interface ParentInscriptionsPage {
+  parents: RelatedInscriptionInfo[];
+  more: boolean;
+  page: number;
+}
+
+export type SatInfo = InscriptionIdPage;
+
+export interface SatInscriptionAt {
+  id: string | null;
+}
+
+// /r/tx answers with the raw transaction only, hex-encoded
+export interface TransactionInfo {
+  txid: string;
+  hex: string;
+  // Serialized size in bytes
+  size: number;
+}
+
+export interface UtxoInfo {
+  inscriptions: string[] | null;
+  runes: Record<string, { amount: number; divisibility: number; symbol: string | null }> | null;
+  sat_ranges: [number, number][] | null;
+  value: number;
+}
+
+export class OrdRequestError extends Error {
+  constructor(public readonly status: number, public readonly url: string) {
+    super(`Server responded with status ${status}`);
+    this.name = "OrdRequestError";
+  }
+}
+
+// Strategies for resolving the current block height, tried in order.
+// Not every ord version serves every endpoint, so we fall through until one answers.
+const HEIGHT_STRATEGIES: { path: string; read: (response: Response) => Promise<number | null> }[] = [
+  { path: "/r/blockheight", read: readHeightText },
+  { path: "/r/height", read: readHeightText },
+  {
+    path: "/r/blockinfo/tip",
+    read: async (response) => {
+      const data = await response.json();
+      return data && data.height && !isNaN(Number(data.height)) ? Number(data.height) : null;
+    },
+  },
+];
+
+async function readHeightText(response: Response): Promise<number | null> {
+  const text = (await response.text()).trim();
+  return text !== "" && !isNaN(Number(text)) && text.length < 12 ? Number(text) : null;
+}
+
+export class OrdClient {
+  readonly baseUrl: string;
+  private readonly fetcher: OrdFetch;
+
+  constructor({ baseUrl, fetch: fetcher }: OrdClientOptions) {
+    this.baseUrl = baseUrl;
+    this.fetcher = fetcher ?? ((url, init) => fetch(url, init));
+  }
+
+  url(path: string): string {
+    return `${this.baseUrl}${path}`;
+  }
+
+  contentUrl(inscriptionId: string): string {
+    return this.url(`/content/${inscriptionId}`);
+  }
+
+  undelegatedContentUrl(inscriptionId: string): string {
+    return this.url(`/r/undelegated-content/${inscriptionId}`);
+  }
+
+  async request(path: string, init?: RequestInit): Promise<Response> {
+    const url = this.url(path);
+    const response = await this.fetcher(url, init);
+    if (!response.ok) {
+      throw new OrdRequestError(response.status, url);
+    }
+    return response;
+  }
+
+  async getText(path: string, init?: RequestInit): Promise<string> {
+    const response = await this.request(path, init);
+    return response.text();
+  }
+
+  async getJson<T>(path: string, init?: RequestInit): Promise<T> {
+    const response = await this.request(path, init);
+    return response.json();
+  }
+
+  // Block endpoints
+
+  async getBlockHeight(): Promise<number | null> {
+    for (const strategy of HEIGHT_STRATEGIES) {
+      try {
+        const response = await this.fetcher(this.url(strategy.path), {
+          cache: "no-store",
+          headers: { Accept: "text/plain" },
+        });
+        if (response.ok) {
+          const height = await strategy.read(response);
+          if (height !== null) {
+            return height;
+          }
+        }
+      } catch (e) {
+        console.error(`Height lookup via ${strategy.path} failed:`, e);
+      }
+    }
+    return null;
+  }
+
+  async getBlockHash(height?: number | string): Promise<string> {
+    const path = height === undefined ? "/r/blockhash" : `/r/blockhash/${height}`;
+    const text = await this.getText(path, { cache: "no-store" });
+    return parseMaybeJsonString(text);
+  }
+
+  async getBlockTime(): Promise<string> {
+    const text = await this.getText("/r/blocktime", { cache: "no-store" });
+    return text.trim();
+  }
+
+  getBlockInfo(query: number | string): Promise<BlockInfo> {
+    return this.getJson<BlockInfo>(`/r/blockinfo/${query}`);
+  }
+
+  // Inscription endpoints
+
+  getInscription(inscriptionId: string): Promise<InscriptionInfo> {
+    return this.getJson<InscriptionInfo>(`/r/inscription/${inscriptionId}`);
+  }
+
+  // Returns the raw metadata body, or null when the inscription has none (404)
+  async getMetadata(inscriptionId: string): Promise<string | null> {
+    const url = this.url(`/r/metadata/${inscriptionId}`);
+    const response = await this.fetcher(url);
+    if (response.status === 404) {
+      return null;
+    }
+    if (!response.ok) {
+      throw new OrdRequestError(response.status, url);
+    }
+    const text = await response.text();
+    return text.trim() === "" ? null : text;
+  }
+
+  getChildren(inscriptionId: string, page?: number): Promise<InscriptionIdPage> {
+    return this.getJson<InscriptionIdPage>(withPage(`/r/children/${inscriptionId}`, page));
+  }
+
+  getChildInscriptions(inscriptionId: string, page?: number): Promise<ChildInscriptionsPage> {
+    return this.getJson<ChildInscriptionsPage>(withPage(`/r/children/${inscriptionId}/inscriptions`, page));
+  }
+
+  getParents(inscriptionId: string, page?: number): Promise<InscriptionIdPage> {
+    return this.getJson<InscriptionIdPage>(withPage(`/r/parents/${inscriptionId}`, page));
+  }
+
+  getParentInscriptions(inscriptionId: string, page?: number): Promise<ParentInscriptionsPage> {
+    return this.getJson<ParentInscriptionsPage>(withPage(`/r/parents/${inscriptionId}/inscriptions`, page));
+  }
+
+  getContent(inscriptionId: string): Promise<Response> {
+    return this.request(`/content/${inscriptionId}`);
+  }
+
+  // Content type from the response headers, without downloading the body
+  async getContentType(path: string): Promise<string | null> {
+    const response = await this.request(path, { method: "HEAD" });
+    return response.headers.get("Content-Type");
+  }
+
+  // Sat endpoints
+
+  getSat(sat: number | string, page?: number): Promise<SatInfo> {
+    return this.getJson<SatInfo>(withPage(`/r/sat/${sat}`, page));
+  }
+
+  getSatInscriptionAt(sat: number | string, index: number): Promise<SatInscriptionAt> {
+    return this.getJson<SatInscriptionAt>(`/r/sat/${sat}/at/${index}`);
+  }
+
+  // Transaction endpoints
+
+  async getTransaction(txid: string): Promise<TransactionInfo> {
+    const hex = parseMaybeJsonString(await this.getText(`/r/tx/${txid}`));
+    return { txid, hex, size: hex.length / 2 };
+  }
+
+  // Returns null when the server has nothing for the outpoint
+  async getUtxo(outpoint: string): Promise<UtxoInfo | null> {
+    const text = await this.getText(`/r/utxo/${outpoint}`);
+    if (text.trim() === "") {
+      return null;
+    }
+    return JSON.parse(text);
+  }
+}
+
+function withPage(path: string, page?: number): string {
+  return page === undefined ? path : `${path}/${page}`;
+}
+
+// Some endpoints answer with a bare string, others with a JSON-encoded one
+function parseMaybeJsonString(text: string): string {
+  const trimmed = text.trim();
+  if (trimmed.startsWith('"')) {
+    try {
+      return JSON.parse(trimmed);
+    } catch {
+      return trimmed;
+    }
+  }
+  return trimmed;
+}
@@ -0,0 +1,57 @@
+import { describe, expect, it } from "vitest";
+import { collectPages, MAX_PAGES, pageLimitWarning } from "./pagination";
+
+// A server with `total` pages that can be told to number its pages differently
+function pagedServer(total: number, numbering: (requested: number) => number = page => page) {
+  const requested: number[] = [];
+  const fetchPage = async (page: number) => {
+    requested.push(page);
+    return { page: numbering(page), more: page < total - 1, items: [page] };
+  };
+  return { fetchPage, requested };
+}
+
+describe("collectPages", () => {
+  it("fetches one page unless asked for all", async () => {
+    const server = pagedServer(3);
+    expect(await collectPages(server.fetchPage, { from: 1 })).toHaveLength(1);
+    expect(server.requested).toEqual([1]);
+  });
+
+  it("follows more until the last page", async () => {
+    const server = pagedServer(3);
+    const fetched: number[] = [];
+    const pages = await collectPages(server.fetchPage, { all: true, onPage: (_page, count) => fetched.push(count) });
+    expect(pages.flatMap(page => page.items)).toEqual([0, 1, 2]);
+    expect(fetched).toEqual([1, 2, 3]);
+  });
+
+  it("never asks for the same page twice", async () => {
+    // A server that always answers page 0
+    const server = pagedServer(3, () => 0);
+    await collectPages(server.fetchPage, { all: true });
+    expect(server.requested).toEqual([0, 1, 2]);
+  });
+
+  it("stops at the page limit", async () => {
+    const server = pagedServer(Infinity);
+    const pages = await collectPages(server.fetchPage, { all: true });
+    expect(pages).toHaveLength(MAX_PAGES);
+  });
+});
+
+describe("pageLimitWarning", () => {
+  const pages = (count: number, more: boolean) =>
+    Array.from({ length: count }, (_, page) => ({ page, more: more || page < count - 1 }));
+
+  it("warns when a walk stopped at the limit with more to come", () => {
+    expect(pageLimitWarning(pages(MAX_PAGES, true), true))
+      .toBe(`Stopped after ${MAX_PAGES} pages; the server reports more after page ${MAX_PAGES - 1}.`);
+  });
+
+  it("stays quiet for complete walks and single pages", () => {
+    expect(pageLimitWarning(pages(MAX_PAGES, false), true)).toBeNull();
+    expect(pageLimitWarning(pages(3, false), true)).toBeNull();
+    expect(pageLimitWarning(pages(1, true), false)).toBeNull();
+  });
+});
@@ -0,0 +1,40 @@
+// Walking paginated ord endpoints (/r/children, /r/parents, /r/sat), which
+// answer with a page number and a `more` flag.
+
+export interface Paginated {
+  more: boolean;
+  page: number;
+}
+
+// Stops at this many pages even if the server keeps saying there are more
+export const MAX_PAGES = 10_000;
+
+// Fetch `from` and, when `all` is set, every following page until `more` is false
+export async function collectPages<T extends Paginated>(
+  fetchPage: (page: number) => Promise<T>,
+  { from = 0, all = false, onPage }: { from?: number; all?: boolean; onPage?: (page: T, fetched: number) => void } = {},
+): Promise<T[]> {
+  const pages: T[] = [];
+  let page = from;
+
+  for (;;) {
+    const result = await fetchPage(page);
+    pages.push(result);
+    onPage?.(result, pages.length);
+    if (!all || !result.more || pages.length >= MAX_PAGES) {
+      return pages;
+    }
+    // Follow the server's numbering, but never ask for the same page twice
+    page = Math.max(result.page, page) + 1;
+  }
+}
+
+// Warning for an `all` walk that hit MAX_PAGES while the server still reported more,
+// so what was collected is only a lower bound; null when the walk was complete
+export function pageLimitWarning(pages: Paginated[], all: boolean): string | null {
+  const last = pages[pages.length - 1];
+  if (!all || !last?.more || pages.length < MAX_PAGES) {
+    return null;
+  }
+  return `Stopped after ${MAX_PAGES} pages; the server reports more after page ${last.page}.`;
+}
@@ -0,0 +1,176 @@
+import { describe, expect, it, vi } from "vitest";
+import { ArgumentError } from "./commandParser";
+import { applyFilters, CapturedOutput, FilterError, parseSelector, printValue, select, splitPipeline } from "./pipeline";
+
+const children = {
+  ids: ["a", "b", "c"],
+  children: [
+    { id: "a", sat: 10 },
+    { id: "b", sat: null },
+    { id: "c", sat: 30 },
+  ],
+};
+
+describe("splitPipeline", () => {
+  it("splits on unquoted bars", () => {
+    expect(splitPipeline("CHILDREN x | SELECT .ids|COUNT")).toEqual(["CHILDREN x", "SELECT .ids", "COUNT"]);
+    expect(splitPipeline("BLOCK 1")).toEqual(["BLOCK 1"]);
+  });
+
+  it("keeps quoted and escaped bars", () => {
+    expect(splitPipeline(`LOG | GREP "a|b"`)).toEqual(["LOG", `GREP "a|b"`]);
+    expect(splitPipeline(`LOG | GREP 'a|b'`)).toEqual(["LOG", `GREP 'a|b'`]);
+    expect(splitPipeline(String.raw`LOG | GREP a\|b`)).toEqual(["LOG", String.raw`GREP a\|b`]);
+  });
+
+  it("rejects empty stages", () => {
+    expect(() => splitPipeline("LOG |")).toThrow("empty stage in pipeline");
+    expect(() => splitPipeline("LOG || COUNT")).toThrow(ArgumentError);
+  });
+});
+
+describe("selectors", () => {
+  const pick = (path: string, value: unknown = children) => select(value, parseSelector(path));
+
+  it("read fields, indices and every element", () => {
+    expect(pick(".")).toBe(children);
+    expect(pick(".ids")).toEqual(["a", "b", "c"]);
+    expect(pick(".ids[0]")).toBe("a");
+    expect(pick(".ids.[1]")).toBe("b");
+    expect(pick(".children[-1].id")).toBe("c");
+    expect(pick(".children[].sat")).toEqual([10, null, 30]);
+    expect(pick("[]", { a: 1, b: 2 })).toEqual([1, 2]);
+  });
+
+  it("give null for missing fields and indices, as jq does", () => {
+    expect(pick(".missing")).toBeNull();
+    expect(pick(".missing.deeper")).toBeNull();
+    expect(pick(".ids[9]")).toBeNull();
+    expect(pick(".children[1].sat.value")).toBeNull();
+  });
+
+  it("reject malformed paths", () => {
+    expect(() => parseSelector("ids")).toThrow("selectors start with '.' or '['");
+    expect(() => parseSelector(".ids[x]")).toThrow("unexpected '[x]' in selector '.ids[x]'");
+  });
+
+  it("reject steps that don't fit the value", () => {
+    expect(() => pick(".ids.length")).toThrow("cannot read .length of an array");
+    expect(() => pick(".ids[0][0]")).toThrow("cannot index a string with [0]");
+    expect(() => pick(".ids[0][]")).toThrow("cannot iterate over a string");
+  });
+});
+
+describe("applyFilters", () => {
+  it("runs each stage on the previous result", () => {
+    expect(applyFilters(children, ["SELECT .children[].id", "TAIL 2", "COUNT"])).toBe(2);
+  });
+
+  it("filters text line by line", () => {
+    const text = "alpha\nBeta\ngamma\nalphabet";
+    expect(applyFilters(text, ["grep ^al"])).toEqual(["alpha", "alphabet"]);
+    expect(applyFilters(text, ["GREP beta"])).toEqual(["Beta"]);
+    expect(applyFilters(text, ["HEAD 2"])).toEqual(["alpha", "Beta"]);
+    expect(applyFilters(text, ["TAIL 0"])).toEqual([]);
+    expect(applyFilters(text, ["COUNT"])).toBe(4);
+  });
+
+  it("greps array elements by their JSON", () => {
+    expect(applyFilters(children.children, ["GREP sat.:null"])).toEqual([{ id: "b", sat: null }]);
+  });
+
+  it("defaults HEAD and TAIL to ten", () => {
+    const numbers = Array.from({ length: 15 }, (_, i) => i);
+    expect(applyFilters(numbers, ["HEAD"])).toHaveLength(10);
+    expect(applyFilters(numbers, ["TAIL"])).toEqual([5, 6, 7, 8, 9, 10, 11, 12, 13, 14]);
+  });
+
+  it("counts object fields", () => {
+    expect(applyFilters({ a: 1, b: 2 }, ["COUNT"])).toBe(2);
+  });
+
+  it("shows arrays of objects and single objects as tables", () => {
+    expect(applyFilters(children.children, ["TABLE"])).toEqual([
+      "id  sat",
+      "--  ---",
+      "a   10",
+      "b",
+      "c   30",
+    ]);
+    expect(applyFilters({ height: 1, hash: "00ab" }, ["TABLE"])).toEqual([
+      "field   value",
+      "------  -----",
+      "height  1",
+      "hash    00ab",
+    ]);
+    expect(applyFilters(["x", 2], ["TABLE"])).toEqual(["value", "-----", "x", "2"]);
+    expect(() => applyFilters(5, ["TABLE"])).toThrow("TABLE: cannot show a number as a table");
+  });
+
+  it("reports unknown filters without a usage line", () => {
+    let thrown: unknown;
+    try {
+      applyFilters([], ["SORT"]);
+    } catch (error) {
+      thrown = error;
+    }
+    expect(thrown).toBeInstanceOf(FilterError);
+    expect((thrown as FilterError).message).toMatch(/^unknown filter 'SORT' \(filters: GREP, SELECT, /);
+    expect((thrown as FilterError).usage).toBeNull();
+  });
+
+  it("reports bad arguments with the filter's usage", () => {
+    let thrown: unknown;
+    try {
+      applyFilters([], ["HEAD -1"]);
+    } catch (error) {
+      thrown = error;
+    }
+    expect(thrown).toBeInstanceOf(FilterError);
+    expect((thrown as FilterError).message).toMatch(/^HEAD: /);
+    expect((thrown as FilterError).usage).toBe("| HEAD [<count>]");
+    expect(() => applyFilters("x", ["GREP ("])).toThrow("GREP: invalid pattern '('");
+  });
+});
+
+describe("CapturedOutput", () => {
+  it("collects printed JSON in preference to text", () => {
+    const captured = new CapturedOutput(vi.fn());
+    captured.print("Fetching...", "info");
+    captured.print("a line", "default");
+    captured.print(JSON.stringify({ id: "a" }), "json");
+    expect(captured.value()).toEqual({ id: "a" });
+
+    captured.print(JSON.stringify({ id: "b" }), "json");
+    expect(captured.value()).toEqual([{ id: "a" }, { id: "b" }]);
+  });
+
+  it("collects printed lines and passes errors through", () => {
+    const passThrough = vi.fn();
+    const captured = new CapturedOutput(passThrough);
+    captured.print("one\ntwo", "default");
+    captured.print("three", "success");
+    captured.print("Error: nope", "error");
+
+    expect(captured.value()).toEqual(["one", "two", "three"]);
+    expect(captured.failed).toBe(true);
+    expect(passThrough.mock.calls).toEqual([["Error: nope", "error"]]);
+  });
+});
+
+describe("printValue", () => {
+  it("prints text as lines, numbers as success and the rest as JSON", () => {
+    const print = vi.fn();
+    printValue(print, "a\nb");
+    printValue(print, ["c"]);
+    printValue(print, 3);
+    printValue(print, { d: 1 });
+    expect(print.mock.calls).toEqual([
+      ["a", "default"],
+      ["b", "default"],
+      ["c", "default"],
+      ["3", "success"],
+      [JSON.stringify({ d: 1 }, null, 2), "json"],
+    ]);
+  });
+});
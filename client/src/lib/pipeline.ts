@@ -0,0 +1,289 @@
+import { z } from "zod";
+import {
+  ArgumentError,
+  type ArgSpecs,
+  formatUsage,
+  integer,
+  type ParsedArgs,
+  parseArguments,
+  tokenize,
+} from "./commandParser";
+import type { ConsoleEntryType, ConsolePrinter } from "./console";
+import { formatTable, type TableRow } from "./table";
+
+// Filters after `|` in a command line. The command's result (what its run
+// returns, or else what it printed) flows through each filter in turn and the
+// last value is printed.
+
+interface FilterDefinition<A extends ArgSpecs = ArgSpecs> {
+  name: string;
+  description: string;
+  args: A;
+  // A method, so filters with specific args still fit AnyFilter
+  apply(value: unknown, args: ParsedArgs<A>): unknown;
+}
+
+type AnyFilter = FilterDefinition<ArgSpecs>;
+
+// A filter stage that is unknown or was given bad arguments
+export class FilterError extends ArgumentError {
+  constructor(message: string, readonly usage: string | null) {
+    super(message);
+    this.name = "FilterError";
+  }
+}
+
+const filters = new Map<string, AnyFilter>();
+
+function defineFilter<A extends ArgSpecs>(filter: FilterDefinition<A>) {
+  filters.set(filter.name, filter);
+}
+
+export function filterUsage(filter: AnyFilter): string {
+  return formatUsage(`| ${filter.name}`, filter.args);
+}
+
+// Every filter with its usage line, for HELP
+export function listFilters(): { usage: string; description: string }[] {
+  return Array.from(filters.values()).map(filter => ({ usage: filterUsage(filter), description: filter.description }));
+}
+
+function describeType(value: unknown): string {
+  if (value === null) return "null";
+  return Array.isArray(value) ? "an array" : `a ${typeof value}`;
+}
+
+// Text is filtered line by line and objects as their JSON lines
+function toLines(value: unknown): string[] {
+  if (typeof value === "string") return value.split("\n");
+  return JSON.stringify(value, null, 2).split("\n");
+}
+
+function toItems(value: unknown): unknown[] {
+  return Array.isArray(value) ? value : toLines(value);
+}
+
+// Split a command line on unquoted, unescaped `|`
+export function splitPipeline(line: string): string[] {
+  const stages: string[] = [];
+  let current = "";
+  let quote: '"' | "'" | null = null;
+
+  for (let i = 0; i < line.length; i++) {
+    const char = line[i];
+    if (char === "\\" && quote !== "'" && i + 1 < line.length) {
+      current += char + line[++i];
+    } else if (quote) {
+      if (char === quote) quote = null;
+      current += char;
+    } else if (char === '"' || char === "'") {
+      quote = char;
+      current += char;
+    } else if (char === "|") {
+      stages.push(current.trim());
+      current = "";
+    } else {
+      current += char;
+    }
+  }
+  stages.push(current.trim());
+
+  if (stages.length > 1 && stages.some(stage => stage === "")) {
+    throw new ArgumentError("empty stage in pipeline");
+  }
+  return stages;
+}
+
+type PathStep = { key: string } | { index: number } | { each: true };
+
+// jq-style paths: .field, .field.sub, [0], [-1] (from the end), [] (every element)
+export function parseSelector(path: string): PathStep[] {
+  if (!path.startsWith(".") && !path.startsWith("[")) {
+    throw new ArgumentError(`selectors start with '.' or '[', got '${path}'`);
+  }
+  const steps: PathStep[] = [];
+  let i = 0;
+  while (i < path.length) {
+    const rest = path.slice(i);
+    const key = rest.match(/^\.([A-Za-z_$][\w$-]*)/);
+    const bracket = rest.match(/^\.?\[(-?\d*)\]/);
+    if (key) {
+      steps.push({ key: key[1] });
+      i += key[0].length;
+    } else if (bracket) {
+      steps.push(bracket[1] === "" ? { each: true } : { index: Number(bracket[1]) });
+      i += bracket[0].length;
+    } else if (rest === ".") {
+      i++;
+    } else {
+      throw new ArgumentError(`unexpected '${rest}' in selector '${path}'`);
+    }
+  }
+  return steps;
+}
+
+// Missing fields and out-of-range indices give null, as in jq
+export function select(value: unknown, steps: PathStep[]): unknown {
+  if (steps.length === 0) return value;
+  const [step, ...rest] = steps;
+
+  if ("each" in step) {
+    if (Array.isArray(value)) return value.map(item => select(item, rest));
+    if (value !== null && typeof value === "object") return Object.values(value).map(item => select(item, rest));
+    throw new ArgumentError(`cannot iterate over ${describeType(value)}`);
+  }
+  if (value === null) return null;
+  if ("index" in step) {
+    if (!Array.isArray(value)) throw new ArgumentError(`cannot index ${describeType(value)} with [${step.index}]`);
+    const item = value[step.index < 0 ? value.length + step.index : step.index];
+    return select(item === undefined ? null : item, rest);
+  }
+  if (typeof value !== "object" || Array.isArray(value)) {
+    throw new ArgumentError(`cannot read .${step.key} of ${describeType(value)}`);
+  }
+  const field = (value as Record<string, unknown>)[step.key];
+  return select(field === undefined ? null : field, rest);
+}
+
+function tableCell(value: unknown): TableRow[string] {
+  if (value === null || value === undefined || typeof value === "string" || typeof value === "number") return value;
+  return JSON.stringify(value);
+}
+
+defineFilter({
+  name: "GREP",
+  description: "keep lines or array elements matching a regular expression (case-insensitive)",
+  args: { pattern: { schema: z.string(), label: "pattern" } },
+  apply: (value, { pattern }) => {
+    let regex: RegExp;
+    try {
+      regex = new RegExp(pattern, "i");
+    } catch {
+      throw new ArgumentError(`invalid pattern '${pattern}'`);
+    }
+    return toItems(value).filter(item => regex.test(typeof item === "string" ? item : JSON.stringify(item)));
+  },
+});
+
+defineFilter({
+  name: "SELECT",
+  description: "pick part of a JSON result, e.g. .ids, .children[0].id or .children[].sat",
+  args: { path: { schema: z.string(), label: "selector" } },
+  apply: (value, { path }) => select(value, parseSelector(path)),
+});
+
+defineFilter({
+  name: "HEAD",
+  description: "keep the first n lines or elements (default 10)",
+  args: { count: { schema: integer(0).default("10"), label: "count" } },
+  apply: (value, { count }) => toItems(value).slice(0, count),
+});
+
+defineFilter({
+  name: "TAIL",
+  description: "keep the last n lines or elements (default 10)",
+  args: { count: { schema: integer(0).default("10"), label: "count" } },
+  apply: (value, { count }) => count === 0 ? [] : toItems(value).slice(-count),
+});
+
+defineFilter({
+  name: "COUNT",
+  description: "number of elements, object fields or lines",
+  args: {},
+  apply: value => {
+    if (Array.isArray(value)) return value.length;
+    if (value !== null && typeof value === "object") return Object.keys(value).length;
+    return toLines(value).length;
+  },
+});
+
+defineFilter({
+  name: "TABLE",
+  description: "show an array of objects, or an object's fields, as a table",
+  args: {},
+  apply: value => {
+    if (Array.isArray(value)) {
+      const objects = value.every(item => item !== null && typeof item === "object" && !Array.isArray(item));
+      if (!objects) {
+        return formatTable(["value"], value.map(item => ({ value: tableCell(item) })));
+      }
+      const records = value as Record<string, unknown>[];
+      const columns: string[] = [];
+      records.forEach(record => Object.keys(record).forEach(key => {
+        if (!columns.includes(key)) columns.push(key);
+      }));
+      const rows = records.map(record => Object.fromEntries(columns.map(column => [column, tableCell(record[column])])));
+      return formatTable(columns, rows);
+    }
+    if (value !== null && typeof value === "object") {
+      return formatTable(["field", "value"], Object.entries(value).map(([field, item]) => ({ field, value: tableCell(item) })));
+    }
+    throw new ArgumentError(`cannot show ${describeType(value)} as a table`);
+  },
+});
+
+// Run the filter stages after the command, in order
+export function applyFilters(value: unknown, stages: string[]): unknown {
+  return stages.reduce((current, stage) => {
+    const [name, ...tokens] = tokenize(stage);
+    const filter = filters.get(name.toUpperCase());
+    if (!filter) {
+      const known = Array.from(filters.keys()).join(", ");
+      throw new FilterError(`unknown filter '${name}' (filters: ${known})`, null);
+    }
+    try {
+      return filter.apply(current, parseArguments(tokens, filter.args, undefined).args);
+    } catch (error) {
+      if (error instanceof ArgumentError) {
+        throw new FilterError(`${filter.name}: ${error.message}`, filterUsage(filter));
+      }
+      throw error;
+    }
+  }, value);
+}
+
+// Collects what a command prints in a pipeline instead of showing it. Errors
+// still reach the console; progress and notes are dropped.
+export class CapturedOutput {
+  failed = false;
+  private json: unknown[] = [];
+  private lines: string[] = [];
+
+  constructor(private readonly passThrough: ConsolePrinter) {}
+
+  print: ConsolePrinter = (text: string, type: ConsoleEntryType = "default") => {
+    if (type === "error") {
+      this.failed = true;
+      this.passThrough(text, type);
+    } else if (type === "json") {
+      try {
+        this.json.push(JSON.parse(text));
+      } catch {
+        this.lines.push(...text.split("\n"));
+      }
+    } else if (type === "default" || type === "success") {
+      this.lines.push(...text.split("\n"));
+    }
+  };
+
+  // Printed JSON if there was any, else the printed lines
+  value(): unknown {
+    if (this.json.length > 0) {
+      return this.json.length === 1 ? this.json[0] : this.json;
+    }
+    return this.lines;
+  }
+}
+
+// Strings and string arrays print as lines, everything else as JSON
+export function printValue(print: ConsolePrinter, value: unknown) {
+  if (typeof value === "string") {
+    value.split("\n").forEach(line => print(line, "default"));
+  } else if (Array.isArray(value) && value.every(item => typeof item === "string")) {
+    value.forEach(line => print(line as string, "default"));
+  } else if (typeof value === "number" || typeof value === "boolean") {
+    print(String(value), "success");
+  } else {
+    print(JSON.stringify(value, null, 2), "json");
+  }
+}
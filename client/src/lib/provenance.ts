@@ -0,0 +1,140 @@
+import type { InscriptionIdPage, OrdClient } from "./ordClient";
+import { collectPages } from "./pagination";
+
+// Recursive walk of an inscription's parents and/or children, bounded by depth
+// and by a budget of requests. Inscriptions seen before are linked but not
+// walked again, so cycles and shared ancestors terminate.
+
+export interface ProvenanceEdge {
+  parent: string;
+  child: string;
+}
+
+export interface ProvenanceGraph {
+  root: string;
+  nodes: string[];
+  edges: ProvenanceEdge[];
+  // Inscriptions whose relations were not fetched, because of depth or budget
+  unexpanded: string[];
+  requests: number;
+  budgetExhausted: boolean;
+}
+
+export interface ProvenanceOptions {
+  depth: number;
+  up: boolean;
+  down: boolean;
+  budget: number;
+  onProgress?: (nodes: number, requests: number) => void;
+}
+
+class BudgetExhausted extends Error {}
+
+// An inscription still to expand, and which of its relations to follow
+interface FrontierNode {
+  id: string;
+  up: boolean;
+  down: boolean;
+}
+
+export async function walkProvenance(client: OrdClient, root: string, options: ProvenanceOptions): Promise<ProvenanceGraph> {
+  const graph: ProvenanceGraph = { root, nodes: [root], edges: [], unexpanded: [], requests: 0, budgetExhausted: false };
+  const seen = new Set([root]);
+  const edgeKeys = new Set<string>();
+
+  const fetchIds = async (fetchPage: (page: number) => Promise<InscriptionIdPage>): Promise<string[]> => {
+    const pages = await collectPages(page => {
+      if (graph.requests >= options.budget) throw new BudgetExhausted();
+      graph.requests++;
+      return fetchPage(page);
+    }, { all: true });
+    options.onProgress?.(graph.nodes.length, graph.requests);
+    return pages.flatMap(page => page.ids);
+  };
+
+  const link = (parent: string, child: string) => {
+    const key = `${parent}>${child}`;
+    if (!edgeKeys.has(key)) {
+      edgeKeys.add(key);
+      graph.edges.push({ parent, child });
+    }
+  };
+
+  // Breadth-first, so a small budget covers the nearest generations first.
+  // Ancestors are only walked up and descendants only down, so siblings and
+  // co-parents stay out of the graph.
+  let frontier: FrontierNode[] = [{ id: root, up: options.up, down: options.down }];
+  for (let level = 0; level < options.depth && frontier.length > 0; level++) {
+    const next: FrontierNode[] = [];
+    for (let i = 0; i < frontier.length; i++) {
+      const { id, up, down } = frontier[i];
+      try {
+        const parents = up ? await fetchIds(page => client.getParents(id, page)) : [];
+        const children = down ? await fetchIds(page => client.getChildren(id, page)) : [];
+        parents.forEach(parent => link(parent, id));
+        children.forEach(child => link(id, child));
+        const relatives = [
+          ...parents.map(parent => ({ id: parent, up: true, down: false })),
+          ...children.map(child => ({ id: child, up: false, down: true })),
+        ];
+        relatives.forEach(relative => {
+          if (!seen.has(relative.id)) {
+            seen.add(relative.id);
+            graph.nodes.push(relative.id);
+            next.push(relative);
+          }
+        });
+      } catch (error) {
+        if (!(error instanceof BudgetExhausted)) throw error;
+        graph.budgetExhausted = true;
+        graph.unexpanded.push(...[...frontier.slice(i), ...next].map(node => node.id));
+        return graph;
+      }
+    }
+    frontier = next;
+  }
+  graph.unexpanded.push(...frontier.map(node => node.id));
+  return graph;
+}
+
+// Box-drawing tree from the root, following parent links (up) or child links (down).
+// An inscription already drawn is shown again but not expanded.
+export function renderTree(graph: ProvenanceGraph, direction: "up" | "down"): string[] {
+  const relatives = new Map<string, string[]>();
+  graph.edges.forEach(({ parent, child }) => {
+    const [from, to] = direction === "down" ? [parent, child] : [child, parent];
+    relatives.set(from, [...(relatives.get(from) ?? []), to]);
+  });
+  const unexpanded = new Set(graph.unexpanded);
+  const drawn = new Set<string>();
+  const lines: string[] = [];
+
+  const draw = (id: string, prefix: string, connector: string, childPrefix: string) => {
+    const repeat = drawn.has(id);
+    const suffix = repeat ? " (see above)" : unexpanded.has(id) ? " …" : "";
+    lines.push(`${prefix}${connector}${id}${suffix}`);
+    if (repeat) return;
+    drawn.add(id);
+    const next = relatives.get(id) ?? [];
+    next.forEach((relative, i) => {
+      const last = i === next.length - 1;
+      draw(relative, prefix + childPrefix, last ? "└── " : "├── ", last ? "    " : "│   ");
+    });
+  };
+
+  draw(graph.root, "", "", "");
+  return lines;
+}
+
+export function toDot(graph: ProvenanceGraph): string {
+  const quote = (id: string) => `"${id}"`;
+  return [
+    "digraph provenance {",
+    "  rankdir=TB;",
+    "  node [shape=box, fontname=monospace];",
+    `  ${quote(graph.root)} [style=bold];`,
+    ...graph.unexpanded.map(id => `  ${quote(id)} [style=dashed];`),
+    ...graph.edges.map(({ parent, child }) => `  ${quote(parent)} -> ${quote(child)};`),
+    "}",
+  ].join("\n") + "\n";
+}
@@ -0,0 +1,168 @@
+import { describe, expect, it } from "vitest";
+import {
+  COIN,
+  describeSat,
+  formatDegree,
+  LAST_SAT,
+  parseSat,
+  parseSatDecimal,
+  parseSatDegree,
+  parseSatName,
+  parseSatPercentile,
+  satDecimal,
+  satDegree,
+  SatParseError,
+  satName,
+  satPercentile,
+  satRarity,
+  startingSat,
+} from "./satMath";
+
+// Expected values follow ord's own sat tests
+const degreeOf = (sat: number) => formatDegree(satDegree(sat));
+
+describe("names", () => {
+  it("count down from sat 0 to the last sat", () => {
+    expect(satName(0)).toBe("nvtdijuwxlp");
+    expect(satName(1)).toBe("nvtdijuwxlo");
+    expect(satName(26)).toBe("nvtdijuwxkp");
+    expect(satName(27)).toBe("nvtdijuwxko");
+    expect(satName(LAST_SAT)).toBe("a");
+    expect(satName(LAST_SAT - 1)).toBe("b");
+    expect(satName(LAST_SAT - 25)).toBe("z");
+    expect(satName(LAST_SAT - 26)).toBe("aa");
+  });
+
+  it("parse back, ignoring case", () => {
+    expect(parseSatName("nvtdijuwxlp")).toBe(0);
+    expect(parseSatName("a")).toBe(LAST_SAT);
+    expect(parseSatName("AA")).toBe(LAST_SAT - 26);
+  });
+
+  it("reject names past sat 0 and non-letters", () => {
+    expect(() => parseSatName("nvtdijuwxlq")).toThrow(SatParseError);
+    expect(() => parseSatName("zzzzzzzzzzzz")).toThrow(/1 to 11 letters/);
+    expect(() => parseSatName("abc1")).toThrow(SatParseError);
+  });
+});
+
+describe("degrees", () => {
+  it("format cycle, epoch offset, period offset and block offset", () => {
+    expect(degreeOf(0)).toBe("0°0′0″0‴");
+    expect(degreeOf(1)).toBe("0°0′0″1‴");
+    expect(degreeOf(50 * COIN - 1)).toBe("0°0′0″4999999999‴");
+    expect(degreeOf(50 * COIN)).toBe("0°1′1″0‴");
+    expect(degreeOf(startingSat(2016))).toBe("0°2016′0″0‴");
+    expect(degreeOf(startingSat(210_000))).toBe("0°0′336″0‴");
+    expect(degreeOf(startingSat(1_260_000))).toBe("1°0′0″0‴");
+    expect(degreeOf(LAST_SAT)).toBe("5°209999′1007″0‴");
+  });
+
+  it("parse back, with Unicode or ASCII primes", () => {
+    [0, 1, 50 * COIN, startingSat(2016) + 7, startingSat(210_000), startingSat(1_260_000) + 3, LAST_SAT].forEach(sat => {
+      expect(parseSatDegree(degreeOf(sat))).toBe(sat);
+    });
+    expect(parseSatDegree(`0°1'1"0'''`)).toBe(50 * COIN);
+    expect(parseSatDegree(`0°1'1"0`)).toBe(50 * COIN);
+  });
+
+  it("reject offsets out of range and parts from different blocks", () => {
+    expect(() => parseSatDegree("0°210000′0″0‴")).toThrow(/epoch offset must be less than 210000/);
+    expect(() => parseSatDegree("0°0′2016″0‴")).toThrow(/period offset must be less than 2016/);
+    expect(() => parseSatDegree("0°1′0″0‴")).toThrow(/don't belong to the same block/);
+    expect(() => parseSatDegree("0°1′1″5000000000‴")).toThrow(/block offset must be less than the subsidy/);
+    expect(() => parseSatDegree("1°2°3")).toThrow(/A°B′C″D‴/);
+  });
+});
+
+describe("decimal notation", () => {
+  it("is height.offset", () => {
+    expect(satDecimal(0)).toBe("0.0");
+    expect(satDecimal(50 * COIN)).toBe("1.0");
+    expect(satDecimal(50 * COIN + 1)).toBe("1.1");
+    expect(satDecimal(startingSat(210_000) + 5)).toBe("210000.5");
+  });
+
+  it("parses back", () => {
+    expect(parseSatDecimal("1.1")).toBe(50 * COIN + 1);
+    expect(parseSatDecimal("210000.5")).toBe(startingSat(210_000) + 5);
+  });
+
+  it("rejects offsets beyond the block's subsidy", () => {
+    expect(() => parseSatDecimal("0.5000000000")).toThrow(/offset must be less than the subsidy/);
+    expect(() => parseSatDecimal("210000.2500000000")).toThrow(/offset must be less than the subsidy/);
+  });
+});
+
+describe("percentiles", () => {
+  it("are written in plain decimals, as ord does", () => {
+    expect(satPercentile(0)).toBe("0%");
+    expect(satPercentile(1)).toBe("0.000000000000047619047671428595%");
+    expect(satPercentile(LAST_SAT)).toBe("100%");
+    expect(satPercentile(1)).not.toMatch(/e/);
+  });
+
+  it("parse back to the same sat", () => {
+    [0, 1, 2, 1_000, 50 * COIN, startingSat(420_000), LAST_SAT].forEach(sat => {
+      expect(parseSatPercentile(satPercentile(sat))).toBe(sat);
+    });
+  });
+
+  it("reject values past 100% and exponent notation", () => {
+    expect(() => parseSatPercentile("100.1%")).toThrow(/0% to 100%/);
+    expect(() => parseSatPercentile("4.7e-14%")).toThrow(SatParseError);
+  });
+});
+
+describe("rarity", () => {
+  it("is mythic only for sat 0", () => {
+    expect(satRarity(0)).toBe("mythic");
+    expect(satRarity(1)).toBe("common");
+  });
+
+  it("marks the first sat of each block, period, epoch and cycle", () => {
+    expect(satRarity(50 * COIN - 1)).toBe("common");
+    expect(satRarity(50 * COIN)).toBe("uncommon");
+    expect(satRarity(50 * COIN + 1)).toBe("common");
+    expect(satRarity(startingSat(2015))).toBe("uncommon");
+    expect(satRarity(startingSat(2016))).toBe("rare");
+    expect(satRarity(startingSat(2016) + 1)).toBe("common");
+    expect(satRarity(startingSat(210_000))).toBe("epic");
+    expect(satRarity(startingSat(210_000) - 1)).toBe("common");
+    expect(satRarity(startingSat(1_260_000))).toBe("legendary");
+    expect(satRarity(startingSat(1_260_000) + 1)).toBe("common");
+  });
+
+  it("treats an epoch start that is also a period start as legendary only at a cycle", () => {
+    // 210000 * 6 is the first height where both offsets are 0 again
+    expect(satDegree(startingSat(1_260_000)).periodOffset).toBe(0);
+    expect(satRarity(startingSat(420_000))).toBe("epic");
+  });
+});
+
+describe("parseSat and describeSat", () => {
+  it("accept every notation for the same sat", () => {
+    const sat = 50 * COIN + 1;
+    [String(sat), satName(sat), degreeOf(sat), satDecimal(sat), satPercentile(sat)].forEach(input => {
+      expect(parseSat(input)).toBe(sat);
+    });
+  });
+
+  it("describes a sat in every notation", () => {
+    expect(describeSat(startingSat(2016))).toMatchObject({
+      number: startingSat(2016),
+      name: satName(startingSat(2016)),
+      degree: "0°2016′0″0‴",
+      decimal: "2016.0",
+      rarity: "rare",
+      epoch: 0,
+      height: 2016,
+      offset: 0,
+      period: 1,
+    });
+  });
+
+  it("rejects input in no known notation", () => {
+    expect(() => parseSat("12-34")).toThrow(/is not a sat number, name, degree/);
+  });
+});
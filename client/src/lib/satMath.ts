@@ -0,0 +1,281 @@
+// Sat arithmetic over the Bitcoin issuance schedule, following ord's
+// definitions of sat names, degrees, decimals and percentiles.
+// Every sat number fits in a double (the supply is below 2^53).
+
+export const COIN = 100_000_000;
+export const SUBSIDY_HALVING_INTERVAL = 210_000;
+export const DIFFCHANGE_INTERVAL = 2016;
+export const CYCLE_EPOCHS = 6;
+export const SUPPLY = 2_099_999_997_690_000;
+export const LAST_SAT = SUPPLY - 1;
+
+// Epochs after which the subsidy is zero
+const FINAL_EPOCH = 33;
+
+export class SatParseError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "SatParseError";
+  }
+}
+
+export function subsidy(height: number): number {
+  const epoch = Math.floor(height / SUBSIDY_HALVING_INTERVAL);
+  return epoch >= FINAL_EPOCH ? 0 : Math.floor((50 * COIN) / 2 ** epoch);
+}
+
+// First sat mined in each epoch, plus the supply as a sentinel
+const EPOCH_STARTING_SATS: number[] = (() => {
+  const starts = [0];
+  for (let epoch = 0; epoch < FINAL_EPOCH; epoch++) {
+    starts.push(starts[epoch] + subsidy(epoch * SUBSIDY_HALVING_INTERVAL) * SUBSIDY_HALVING_INTERVAL);
+  }
+  return starts;
+})();
+
+export function epochOf(sat: number): number {
+  let epoch = 0;
+  while (epoch + 1 < EPOCH_STARTING_SATS.length && EPOCH_STARTING_SATS[epoch + 1] <= sat) {
+    epoch++;
+  }
+  return epoch;
+}
+
+// First sat of the coinbase at `height`
+export function startingSat(height: number): number {
+  const epoch = Math.min(Math.floor(height / SUBSIDY_HALVING_INTERVAL), FINAL_EPOCH);
+  const intoEpoch = height - epoch * SUBSIDY_HALVING_INTERVAL;
+  return EPOCH_STARTING_SATS[epoch] + intoEpoch * subsidy(height);
+}
+
+export function heightOf(sat: number): number {
+  const epoch = epochOf(sat);
+  return epoch * SUBSIDY_HALVING_INTERVAL + Math.floor((sat - EPOCH_STARTING_SATS[epoch]) / subsidy(epoch * SUBSIDY_HALVING_INTERVAL));
+}
+
+// Position of the sat within its block's subsidy
+export function offsetOf(sat: number): number {
+  return sat - startingSat(heightOf(sat));
+}
+
+export function isValidSat(sat: number): boolean {
+  return Number.isSafeInteger(sat) && sat >= 0 && sat <= LAST_SAT;
+}
+
+// Names count down from "nvtdijuwxlp" (sat 0) to "a" (the last sat)
+export function satName(sat: number): string {
+  let x = SUPPLY - sat;
+  let name = "";
+  while (x > 0) {
+    name = String.fromCharCode(97 + ((x - 1) % 26)) + name;
+    x = Math.floor((x - 1) / 26);
+  }
+  return name;
+}
+
+export interface Degree {
+  cycle: number;
+  epochOffset: number;
+  periodOffset: number;
+  blockOffset: number;
+}
+
+export function satDegree(sat: number): Degree {
+  const height = heightOf(sat);
+  return {
+    cycle: Math.floor(height / (SUBSIDY_HALVING_INTERVAL * CYCLE_EPOCHS)),
+    epochOffset: height % SUBSIDY_HALVING_INTERVAL,
+    periodOffset: height % DIFFCHANGE_INTERVAL,
+    blockOffset: offsetOf(sat),
+  };
+}
+
+export function formatDegree(degree: Degree): string {
+  return `${degree.cycle}°${degree.epochOffset}′${degree.periodOffset}″${degree.blockOffset}‴`;
+}
+
+export function satDecimal(sat: number): string {
+  return `${heightOf(sat)}.${offsetOf(sat)}`;
+}
+
+// ord prints floats in plain decimal, never with an exponent, e.g.
+// 0.000000000000047619047671428595% for sat 1
+export function satPercentile(sat: number): string {
+  return `${plainDecimal((sat / LAST_SAT) * 100)}%`;
+}
+
+// The shortest round-trip digits of a number, written out without an exponent
+function plainDecimal(value: number): string {
+  const match = String(value).match(/^(\d)(?:\.(\d+))?e([+-]\d+)$/);
+  if (!match) return String(value);
+  const [, whole, fraction = "", exponent] = match;
+  const digits = whole + fraction;
+  const shift = Number(exponent);
+  if (shift < 0) return `0.${"0".repeat(-shift - 1)}${digits}`;
+  return shift >= fraction.length
+    ? digits + "0".repeat(shift - fraction.length)
+    : `${digits.slice(0, shift + 1)}.${digits.slice(shift + 1)}`;
+}
+
+export type Rarity = "common" | "uncommon" | "rare" | "epic" | "legendary" | "mythic";
+
+// First sat of a block is uncommon, of a difficulty period rare, of a halving
+// epoch epic, of a cycle legendary; sat 0 is the only mythic
+export function satRarity(sat: number): Rarity {
+  const { cycle, epochOffset, periodOffset, blockOffset } = satDegree(sat);
+  if (blockOffset !== 0) return "common";
+  if (epochOffset === 0 && periodOffset === 0) return cycle === 0 ? "mythic" : "legendary";
+  if (epochOffset === 0) return "epic";
+  if (periodOffset === 0) return "rare";
+  return "uncommon";
+}
+
+// Every notation and position of a sat, as SATCALC shows it
+export interface SatDescription {
+  number: number;
+  name: string;
+  degree: string;
+  decimal: string;
+  percentile: string;
+  rarity: Rarity;
+  epoch: number;
+  height: number;
+  offset: number;
+  cycle: number;
+  period: number;
+}
+
+export function describeSat(sat: number): SatDescription {
+  const height = heightOf(sat);
+  return {
+    number: sat,
+    name: satName(sat),
+    degree: formatDegree(satDegree(sat)),
+    decimal: satDecimal(sat),
+    percentile: satPercentile(sat),
+    rarity: satRarity(sat),
+    epoch: epochOf(sat),
+    height,
+    offset: offsetOf(sat),
+    cycle: Math.floor(height / (SUBSIDY_HALVING_INTERVAL * CYCLE_EPOCHS)),
+    period: Math.floor(height / DIFFCHANGE_INTERVAL),
+  };
+}
+
+function checkSat(sat: number, input: string): number {
+  if (!isValidSat(sat)) {
+    throw new SatParseError(`'${input}' is outside the range of sats (0-${LAST_SAT})`);
+  }
+  return sat;
+}
+
+export function parseSatName(input: string): number {
+  const name = input.toLowerCase();
+  if (!/^[a-z]{1,11}$/.test(name)) {
+    throw new SatParseError(`sat names are 1 to 11 letters, got '${input}'`);
+  }
+  let x = 0;
+  for (const char of name) {
+    x = x * 26 + (char.charCodeAt(0) - 96);
+  }
+  if (x > SUPPLY) {
+    throw new SatParseError(`'${input}' is past the first sat's name (nvtdijuwxlp)`);
+  }
+  return SUPPLY - x;
+}
+
+// Degree notation: cycle°epoch offset′period offset″block offset‴.
+// ASCII ' " and ''' are accepted for the primes.
+export function parseSatDegree(input: string): number {
+  const match = input.match(/^(\d+)°(\d+)(?:′|')(\d+)(?:″|")(\d+)(?:‴|''')?$/);
+  if (!match) {
+    throw new SatParseError(`degrees are written A°B′C″D‴, got '${input}'`);
+  }
+  const [cycle, epochOffset, periodOffset, blockOffset] = match.slice(1).map(Number);
+  if (epochOffset >= SUBSIDY_HALVING_INTERVAL) {
+    throw new SatParseError(`epoch offset must be less than ${SUBSIDY_HALVING_INTERVAL}, got ${epochOffset}`);
+  }
+  if (periodOffset >= DIFFCHANGE_INTERVAL) {
+    throw new SatParseError(`period offset must be less than ${DIFFCHANGE_INTERVAL}, got ${periodOffset}`);
+  }
+
+  // Every halving shifts the period offset against the epoch offset by 210000 % 2016 = 336
+  const halvingIncrement = SUBSIDY_HALVING_INTERVAL % DIFFCHANGE_INTERVAL;
+  const relationship = periodOffset + SUBSIDY_HALVING_INTERVAL * CYCLE_EPOCHS - epochOffset;
+  if (relationship % halvingIncrement !== 0) {
+    throw new SatParseError(`epoch offset ${epochOffset} and period offset ${periodOffset} don't belong to the same block`);
+  }
+  const epoch = cycle * CYCLE_EPOCHS + (relationship % DIFFCHANGE_INTERVAL) / halvingIncrement;
+  const height = epoch * SUBSIDY_HALVING_INTERVAL + epochOffset;
+  if (blockOffset >= subsidy(height)) {
+    throw new SatParseError(`block offset must be less than the subsidy at height ${height} (${subsidy(height)}), got ${blockOffset}`);
+  }
+  const sat = checkSat(startingSat(height) + blockOffset, input);
+
+  // A degree whose parts can't occur together parses to a different block
+  const degree = satDegree(sat);
+  if (degree.cycle !== cycle || degree.periodOffset !== periodOffset) {
+    throw new SatParseError(`'${input}' does not name an existing block`);
+  }
+  return sat;
+}
+
+// Decimal notation: height.offset
+export function parseSatDecimal(input: string): number {
+  const match = input.match(/^(\d+)\.(\d+)$/);
+  if (!match) {
+    throw new SatParseError(`decimal notation is height.offset, got '${input}'`);
+  }
+  const [height, offset] = match.slice(1).map(Number);
+  if (offset >= subsidy(height)) {
+    throw new SatParseError(`offset must be less than the subsidy at height ${height} (${subsidy(height)}), got ${offset}`);
+  }
+  return checkSat(startingSat(height) + offset, input);
+}
+
+// Percentile notation: the sat that far through the supply, e.g. 50%
+export function parseSatPercentile(input: string): number {
+  const match = input.match(/^(\d+(?:\.\d+)?)%$/);
+  if (!match || Number(match[1]) > 100) {
+    throw new SatParseError(`percentiles are 0% to 100%, got '${input}'`);
+  }
+  return Math.round((Number(match[1]) / 100) * LAST_SAT);
+}
+
+export function parseSatNumber(input: string): number {
+  if (!/^\d+$/.test(input)) {
+    throw new SatParseError(`sat numbers are whole numbers, got '${input}'`);
+  }
+  return checkSat(Number(input), input);
+}
+
+export type SatNotation = "number" | "decimal" | "percentile" | "degree" | "name";
+
+// The notation an input is written in, judged by its shape alone
+export function satNotation(input: string): SatNotation | null {
+  if (/^\d+$/.test(input)) return "number";
+  if (/^\d+\.\d+$/.test(input)) return "decimal";
+  if (input.endsWith("%")) return "percentile";
+  if (input.includes("°")) return "degree";
+  if (/^[a-z]+$/i.test(input)) return "name";
+  return null;
+}
+
+// Any notation ord accepts for a sat
+export function parseSat(input: string): number {
+  const value = input.trim();
+  switch (satNotation(value)) {
+    case "number":
+      return parseSatNumber(value);
+    case "decimal":
+      return parseSatDecimal(value);
+    case "percentile":
+      return parseSatPercentile(value);
+    case "degree":
+      return parseSatDegree(value);
+    case "name":
+      return parseSatName(value);
+    default:
+      throw new SatParseError(`'${input}' is not a sat number, name, degree (A°B′C″D‴), decimal (height.offset) or percentile (N%)`);
+  }
+}
@@ -0,0 +1,226 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import type { CommandContext } from "./commandRegistry";
+import type { ConsoleEntryType } from "./console";
+
+// script.ts and variables.ts keep session state, so each test loads fresh copies
+let script: typeof import("./script");
+
+const store = new Map<string, string>();
+
+beforeEach(async () => {
+  store.clear();
+  vi.stubGlobal("localStorage", {
+    getItem: (key: string) => store.get(key) ?? null,
+    setItem: (key: string, value: string) => store.set(key, value),
+    removeItem: (key: string) => store.delete(key),
+  });
+  vi.resetModules();
+  script = await import("./script");
+});
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+// A terminal whose registry records each command line it is asked to run.
+// Lines containing FAIL print an error, as a failing command would.
+function fakeTerminal() {
+  const output: [string, ConsoleEntryType | undefined][] = [];
+  const executed: string[] = [];
+  const ctx = {
+    print: (text: string, type?: ConsoleEntryType) => output.push([text, type]),
+    registry: {
+      execute: async (line: string, commandCtx: CommandContext) => {
+        executed.push(line);
+        if (line.includes("FAIL")) commandCtx.print(`Error: ${line} failed`, "error");
+        return undefined;
+      },
+    },
+  } as unknown as CommandContext;
+  return { ctx, output, executed };
+}
+
+async function run(source: string, params: string[] = [], dryRun = false) {
+  const terminal = fakeTerminal();
+  await script.runScript(script.parseScript(source), terminal.ctx, { params, dryRun });
+  return terminal;
+}
+
+describe("parseScript", () => {
+  it("skips blank lines and comments and numbers commands by line", () => {
+    expect(script.parseScript("# header\n\nBLOCK 1\n  TX abc  ")).toEqual([
+      { kind: "command", line: 3, text: "BLOCK 1" },
+      { kind: "command", line: 4, text: "TX abc" },
+    ]);
+  });
+
+  it("nests FOR and IF/ELSE blocks", () => {
+    const nodes = script.parseScript([
+      "FOR h IN 1..2",
+      "  IF $h == 1",
+      "    BLOCK $h",
+      "  ELSE",
+      "    TX $h",
+      "  END",
+      "END",
+    ].join("\n"));
+    expect(nodes).toEqual([{
+      kind: "for",
+      line: 1,
+      variable: "h",
+      source: "1..2",
+      body: [{
+        kind: "if",
+        line: 2,
+        condition: "$h == 1",
+        then: [{ kind: "command", line: 3, text: "BLOCK $h" }],
+        otherwise: [{ kind: "command", line: 5, text: "TX $h" }],
+      }],
+    }]);
+  });
+
+  it("keeps macro bodies as text, including their own blocks", () => {
+    const nodes = script.parseScript("MACRO DEFINE tip\nFOR x IN a b\nBLOCK $x\nEND\nEND\nBLOCK 3");
+    expect(nodes).toEqual([
+      { kind: "macro", line: 1, name: "tip", source: "FOR x IN a b\nBLOCK $x\nEND" },
+      { kind: "command", line: 6, text: "BLOCK 3" },
+    ]);
+  });
+
+  it("reports unbalanced blocks with the line they start on", () => {
+    expect(() => script.parseScript("BLOCK 1\nFOR x IN 1..2\nBLOCK $x")).toThrow("line 2: FOR without END");
+    expect(() => script.parseScript("IF 1\nELSE\nBLOCK 1")).toThrow("line 1: ELSE without END");
+    expect(() => script.parseScript("BLOCK 1\nEND")).toThrow("line 2: END without FOR, IF or MACRO DEFINE");
+    expect(() => script.parseScript("ELSE")).toThrow("line 1: ELSE without IF");
+    expect(() => script.parseScript("FOR x 1..2\nEND")).toThrow("line 1: expected FOR <name> IN");
+    expect(() => script.parseScript("IF\nEND")).toThrow("line 1: IF needs a condition");
+    expect(() => script.parseScript("MACRO DEFINE 1x\nEND")).toThrow("line 1: expected MACRO DEFINE <name>");
+    expect(() => script.parseScript("MACRO DEFINE m\nBLOCK 1")).toThrow("line 1: MACRO DEFINE without END");
+  });
+});
+
+describe("evaluateCondition", () => {
+  it("treats empty, zero, false, null and empty collections as false", () => {
+    ["''", "0", "false", "NULL", "[]", "{}"].forEach(value => {
+      expect(script.evaluateCondition(value)).toBe(false);
+    });
+    ["1", "abc", "[1]"].forEach(value => {
+      expect(script.evaluateCondition(value)).toBe(true);
+    });
+    expect(script.evaluateCondition("NOT 0")).toBe(true);
+  });
+
+  it("compares numbers as numbers and other values as text", () => {
+    expect(script.evaluateCondition("10 > 9")).toBe(true);
+    expect(script.evaluateCondition("10 == 10.0")).toBe(true);
+    expect(script.evaluateCondition("abc < abd")).toBe(true);
+    expect(script.evaluateCondition("10 != 9")).toBe(true);
+    expect(script.evaluateCondition("5 <= 4")).toBe(false);
+    expect(script.evaluateCondition("'image/png' CONTAINS IMAGE")).toBe(true);
+  });
+
+  it("rejects conditions it can't read", () => {
+    expect(() => script.evaluateCondition("1 2")).toThrow("expected IF <value>, IF NOT <value> or IF <a> <op> <b>");
+    expect(() => script.evaluateCondition("1 =~ 2")).toThrow("unknown comparison '=~'");
+  });
+});
+
+describe("loopValues", () => {
+  it("expands ranges in either direction", () => {
+    expect(script.loopValues("1..3")).toEqual(["1", "2", "3"]);
+    expect(script.loopValues("2..-1")).toEqual(["2", "1", "0", "-1"]);
+    expect(() => script.loopValues("0..10000")).toThrow("range 0..10000 has more than 10000 values");
+  });
+
+  it("walks JSON arrays and otherwise words", () => {
+    expect(script.loopValues(`'["a",1,{"b":2}]'`)).toEqual(["a", "1", `{"b":2}`]);
+    expect(script.loopValues("a b 'c d'")).toEqual(["a", "b", "c d"]);
+    expect(script.loopValues("'[not json'")).toEqual(["[not json"]);
+  });
+});
+
+describe("runScript", () => {
+  it("runs commands in order, echoing each one", async () => {
+    const { executed, output } = await run("BLOCK 1\nBLOCK 2");
+    expect(executed).toEqual(["BLOCK 1", "BLOCK 2"]);
+    expect(output).toEqual([["BLOCK 1", "input"], ["BLOCK 2", "input"]]);
+  });
+
+  it("substitutes parameters, their count and loop variables", async () => {
+    const { executed } = await run("ECHO $# $@\nFOR h IN 1..2\nBLOCK $h $1\nEND", ["first", "two words"]);
+    expect(executed).toEqual(["ECHO 2 first \"two words\"", "BLOCK 1 first", "BLOCK 2 first"]);
+  });
+
+  it("leaves session references for the registry to expand", async () => {
+    const { executed } = await run("SAT $_.sat");
+    expect(executed).toEqual(["SAT $_.sat"]);
+  });
+
+  it("takes the branch the condition selects", async () => {
+    const { executed } = await run("IF $1 > 5\nBLOCK big\nELSE\nBLOCK small\nEND", ["3"]);
+    expect(executed).toEqual(["BLOCK small"]);
+  });
+
+  it("stops at the first command that reports an error", async () => {
+    const terminal = fakeTerminal();
+    const nodes = script.parseScript("BLOCK 1\n# comment\nBLOCK FAIL\nBLOCK 3");
+    await expect(script.runScript(nodes, terminal.ctx, { params: [], dryRun: false }))
+      .rejects.toThrow("line 3: stopped after an error in 'BLOCK FAIL'");
+    expect(terminal.executed).toEqual(["BLOCK 1", "BLOCK FAIL"]);
+  });
+
+  it("lets later lines see a network switched by an earlier one", async () => {
+    let network = "mainnet";
+    const seen: string[] = [];
+    const ctx = {
+      print: () => {},
+      get network() { return network; },
+      registry: {
+        execute: async (line: string, commandCtx: CommandContext) => {
+          if (line === "NETWORK signet") network = "signet";
+          seen.push(commandCtx.network);
+        },
+      },
+    } as unknown as CommandContext;
+    await script.runScript(script.parseScript("BLOCK 1\nNETWORK signet\nBLOCK 2"), ctx, { params: [], dryRun: false });
+    expect(seen).toEqual(["mainnet", "signet", "signet"]);
+  });
+
+  it("reports missing parameters and bad loops against their line", async () => {
+    await expect(run("BLOCK 1\nBLOCK $2", ["x"])).rejects.toThrow("line 2: $2: only 1 parameter given");
+    await expect(run("FOR x IN 0..20000\nBLOCK $x\nEND")).rejects.toThrow("line 1: range 0..20000 has more than 10000 values");
+  });
+
+  it("defines macros", async () => {
+    const { output } = await run("MACRO DEFINE tip\nBLOCKHEIGHT\nEND");
+    expect(output).toEqual([["Macro TIP defined.", "system"]]);
+    expect(script.macroStore.get("tip")).toBe("BLOCKHEIGHT");
+    expect(JSON.parse(store.get("termina.macros")!)).toEqual({ TIP: "BLOCKHEIGHT" });
+  });
+});
+
+describe("dry runs", () => {
+  it("print each expanded line instead of running it", async () => {
+    const { executed, output } = await run("FOR h IN 1..2\nBLOCK $h $1\nEND\nMACRO DEFINE m\nBLOCK 0\nEND", ["x"], true);
+    expect(executed).toEqual([]);
+    expect(output).toEqual([
+      ["1: FOR h IN 1 2", "system"],
+      ["2: BLOCK 1 x", "default"],
+      ["2: BLOCK 2 x", "default"],
+      ["4: MACRO DEFINE m", "system"],
+    ]);
+    expect(script.macroStore.get("m")).toBeUndefined();
+  });
+
+  it("show conditions and both branches when values come from earlier commands", async () => {
+    const { output } = await run("IF $_.sat > 1\nSAT $_.sat\nELSE\nBLOCK 0\nEND\nIF 2 > 1\nBLOCK 2\nEND", [], true);
+    expect(output).toEqual([
+      ["1: IF $_.sat > 1 (known when run)", "system"],
+      ["2: SAT $_.sat", "default"],
+      ["ELSE", "system"],
+      ["4: BLOCK 0", "default"],
+      ["6: IF 2 > 1 -> true", "system"],
+      ["7: BLOCK 2", "default"],
+    ]);
+  });
+});
@@ -0,0 +1,367 @@
+import { ArgumentError, tokenize } from "./commandParser";
+import { withPrinter, type CommandContext } from "./commandRegistry";
+import { type Scope, sessionVariables, substituteScope } from "./variables";
+
+// Scripts and macros: command lines run one after another, with FOR loops,
+// IF/ELSE blocks and MACRO DEFINE blocks, each closed by END. Lines starting
+// with # are comments. Inside a script $1..$n are its parameters, $# their
+// count and $@ all of them; loop variables are $<name>.
+
+export class ScriptError extends Error {
+  constructor(readonly line: number | null, message: string) {
+    super(line === null ? message : `line ${line}: ${message}`);
+    this.name = "ScriptError";
+  }
+}
+
+export type ScriptNode =
+  | { kind: "command"; line: number; text: string }
+  | { kind: "for"; line: number; variable: string; source: string; body: ScriptNode[] }
+  | { kind: "if"; line: number; condition: string; then: ScriptNode[]; otherwise: ScriptNode[] }
+  | { kind: "macro"; line: number; name: string; source: string };
+
+const MACROS_KEY = "termina.macros";
+const MACRO_NAME = /^[A-Za-z][A-Za-z0-9_-]*$/;
+// Guards against runaway loops and scripts that RUN themselves
+const MAX_ITERATIONS = 10_000;
+const MAX_DEPTH = 8;
+
+function words(text: string): string[] {
+  return text.trim().split(/\s+/);
+}
+
+// +1 for a line opening a block, -1 for END, 0 otherwise
+export function blockDepthChange(text: string): number {
+  const [first = "", second = ""] = words(text).map(word => word.toUpperCase());
+  if (first === "FOR" || first === "IF" || (first === "MACRO" && second === "DEFINE")) return 1;
+  if (first === "END" && words(text).length === 1) return -1;
+  return 0;
+}
+
+export function parseScript(source: string): ScriptNode[] {
+  const lines = source.split(/\r?\n/);
+  let next = 0;
+
+  // Nodes up to one of `closers` on a line of its own; closer is null at the end of the script
+  const block = (closers: string[]): { nodes: ScriptNode[]; closer: string | null } => {
+    const nodes: ScriptNode[] = [];
+    while (next < lines.length) {
+      const line = next + 1;
+      const text = lines[next++].trim();
+      if (text === "" || text.startsWith("#")) continue;
+
+      const [first, second = "", third] = words(text);
+      const head = first.toUpperCase();
+      if (closers.includes(head) && words(text).length === 1) {
+        return { nodes, closer: head };
+      }
+
+      if (head === "FOR") {
+        const match = text.match(/^FOR\s+([A-Za-z][A-Za-z0-9_]*)\s+IN\s+(.+)$/i);
+        if (!match) throw new ScriptError(line, "expected FOR <name> IN <from>..<to> or FOR <name> IN <values...>");
+        const body = block(["END"]);
+        if (!body.closer) throw new ScriptError(line, "FOR without END");
+        nodes.push({ kind: "for", line, variable: match[1], source: match[2], body: body.nodes });
+      } else if (head === "IF") {
+        const condition = text.slice(2).trim();
+        if (condition === "") throw new ScriptError(line, "IF needs a condition");
+        const then = block(["ELSE", "END"]);
+        if (!then.closer) throw new ScriptError(line, "IF without END");
+        let otherwise: ScriptNode[] = [];
+        if (then.closer === "ELSE") {
+          const elseBlock = block(["END"]);
+          if (!elseBlock.closer) throw new ScriptError(line, "ELSE without END");
+          otherwise = elseBlock.nodes;
+        }
+        nodes.push({ kind: "if", line, condition, then: then.nodes, otherwise });
+      } else if (head === "ELSE" || head === "END") {
+        throw new ScriptError(line, `${head} without ${head === "ELSE" ? "IF" : "FOR, IF or MACRO DEFINE"}`);
+      } else if (head === "MACRO" && second.toUpperCase() === "DEFINE") {
+        if (!third || !MACRO_NAME.test(third)) throw new ScriptError(line, "expected MACRO DEFINE <name>");
+        // The body is kept as text and parsed when the macro runs
+        const body: string[] = [];
+        let depth = 1;
+        while (next < lines.length) {
+          const bodyLine = lines[next++];
+          depth += blockDepthChange(bodyLine);
+          if (depth === 0) break;
+          body.push(bodyLine);
+        }
+        if (depth !== 0) throw new ScriptError(line, "MACRO DEFINE without END");
+        nodes.push({ kind: "macro", line, name: third, source: body.join("\n") });
+      } else {
+        nodes.push({ kind: "command", line, text });
+      }
+    }
+    return { nodes, closer: null };
+  };
+
+  return block([]).nodes;
+}
+
+// Macros saved in localStorage, by upper-case name
+class MacroStore {
+  private macros: Record<string, string> = {};
+  private recording: { name: string; lines: string[]; depth: number } | null = null;
+
+  constructor() {
+    try {
+      const saved = JSON.parse(localStorage.getItem(MACROS_KEY) ?? "{}");
+      if (saved && typeof saved === "object" && !Array.isArray(saved)) {
+        Object.entries(saved).forEach(([name, source]) => {
+          if (typeof source === "string") this.macros[name] = source;
+        });
+      }
+    } catch (error) {
+      console.error("Could not restore macros:", error);
+    }
+  }
+
+  get(name: string): string | undefined {
+    return this.macros[name.toUpperCase()];
+  }
+
+  names(): string[] {
+    return Object.keys(this.macros).sort();
+  }
+
+  define(name: string, source: string) {
+    if (!MACRO_NAME.test(name)) {
+      throw new ArgumentError(`invalid macro name '${name}' (letters, digits, _ and -, starting with a letter)`);
+    }
+    // Refuse bodies that wouldn't parse, so errors show up now rather than at RUN
+    parseScript(source);
+    this.macros[name.toUpperCase()] = source;
+    this.persist();
+  }
+
+  remove(name: string): boolean {
+    const key = name.toUpperCase();
+    if (!(key in this.macros)) return false;
+    delete this.macros[key];
+    this.persist();
+    return true;
+  }
+
+  // MACRO DEFINE at the prompt: the following lines are collected until END
+  get recordingName(): string | null {
+    return this.recording?.name ?? null;
+  }
+
+  startRecording(name: string) {
+    if (!MACRO_NAME.test(name)) {
+      throw new ArgumentError(`invalid macro name '${name}' (letters, digits, _ and -, starting with a letter)`);
+    }
+    this.recording = { name, lines: [], depth: 1 };
+  }
+
+  cancelRecording() {
+    this.recording = null;
+  }
+
+  // Adds a line; returns the finished macro's line count after its END
+  record(line: string): number | null {
+    const recording = this.recording;
+    if (!recording) return null;
+    recording.depth += blockDepthChange(line);
+    if (recording.depth > 0) {
+      recording.lines.push(line);
+      return null;
+    }
+    this.recording = null;
+    this.define(recording.name, recording.lines.join("\n"));
+    return recording.lines.length;
+  }
+
+  private persist() {
+    try {
+      localStorage.setItem(MACROS_KEY, JSON.stringify(this.macros));
+    } catch (error) {
+      console.error("Could not save macros:", error);
+    }
+  }
+}
+
+export const macroStore = new MacroStore();
+
+// Fully expanded text for a dry run; references only known at run time stay as written
+function preview(text: string): string {
+  try {
+    return sessionVariables.interpolate(text);
+  } catch {
+    return text;
+  }
+}
+
+// Empty text, 0, false, null and empty JSON collections are false
+function truthy(value: string): boolean {
+  return !["", "0", "false", "null", "[]", "{}"].includes(value.trim().toLowerCase());
+}
+
+// IF <value>, IF NOT <value>, or IF <a> <op> <b> with == != < <= > >= or CONTAINS
+export function evaluateCondition(condition: string): boolean {
+  const tokens = tokenize(condition);
+  if (tokens.length === 1) return truthy(tokens[0]);
+  if (tokens.length === 2 && tokens[0].toUpperCase() === "NOT") return !truthy(tokens[1]);
+  if (tokens.length !== 3) {
+    throw new ArgumentError("expected IF <value>, IF NOT <value> or IF <a> <op> <b>");
+  }
+
+  const [left, op, right] = tokens;
+  const numeric = left.trim() !== "" && right.trim() !== "" && !isNaN(Number(left)) && !isNaN(Number(right));
+  const a: string | number = numeric ? Number(left) : left;
+  const b: string | number = numeric ? Number(right) : right;
+  switch (op.toUpperCase()) {
+    case "==": return a === b;
+    case "!=": return a !== b;
+    case "<": return a < b;
+    case "<=": return a <= b;
+    case ">": return a > b;
+    case ">=": return a >= b;
+    case "CONTAINS": return left.toLowerCase().includes(right.toLowerCase());
+    default: throw new ArgumentError(`unknown comparison '${op}' (==, !=, <, <=, >, >= or CONTAINS)`);
+  }
+}
+
+// Values a FOR loop walks: a numeric range a..b, a JSON array, or words
+export function loopValues(source: string): string[] {
+  const tokens = tokenize(source);
+  if (tokens.length === 1) {
+    const range = tokens[0].match(/^(-?\d+)\.\.(-?\d+)$/);
+    if (range) {
+      const [from, to] = [Number(range[1]), Number(range[2])];
+      const step = from <= to ? 1 : -1;
+      if (Math.abs(to - from) >= MAX_ITERATIONS) {
+        throw new ArgumentError(`range ${tokens[0]} has more than ${MAX_ITERATIONS} values`);
+      }
+      return Array.from({ length: Math.abs(to - from) + 1 }, (_, i) => String(from + i * step));
+    }
+    if (tokens[0].startsWith("[")) {
+      try {
+        const values = JSON.parse(tokens[0]);
+        if (Array.isArray(values)) {
+          return values.map(value => (typeof value === "string" ? value : JSON.stringify(value)));
+        }
+      } catch {
+        // Not JSON; loop over the word itself
+      }
+    }
+  }
+  return tokens;
+}
+
+export interface RunOptions {
+  params: string[];
+  dryRun: boolean;
+}
+
+let depth = 0;
+
+// Run parsed nodes in order, stopping at the first command that reports an error
+export async function runScript(nodes: ScriptNode[], ctx: CommandContext, { params, dryRun }: RunOptions): Promise<void> {
+  if (depth >= MAX_DEPTH) {
+    throw new ScriptError(null, `scripts nested more than ${MAX_DEPTH} deep`);
+  }
+
+  let failed = false;
+  const scriptCtx = withPrinter(ctx, (text, type) => {
+    if (type === "error") failed = true;
+    ctx.print(text, type);
+  });
+
+  // Expand the scope's references, reporting problems against the script line
+  const expand = (text: string, line: number, scope: Scope, full: boolean): string => {
+    try {
+      const scoped = substituteScope(text, scope);
+      return full ? sessionVariables.interpolate(scoped) : scoped;
+    } catch (error) {
+      throw new ScriptError(line, error instanceof Error ? error.message : String(error));
+    }
+  };
+
+  const run = async (block: ScriptNode[], scope: Scope): Promise<void> => {
+    for (const node of block) {
+      switch (node.kind) {
+        case "command": {
+          const text = expand(node.text, node.line, scope, false);
+          if (dryRun) {
+            ctx.print(`${node.line}: ${preview(text)}`, "default");
+            break;
+          }
+          ctx.print(text, "input");
+          failed = false;
+          await ctx.registry.execute(text, scriptCtx);
+          if (failed) {
+            throw new ScriptError(node.line, `stopped after an error in '${node.text}'`);
+          }
+          break;
+        }
+        case "for": {
+          let values: string[];
+          try {
+            values = loopValues(expand(node.source, node.line, scope, true));
+          } catch (error) {
+            // A dry run can't know values that earlier commands would produce; show the body once
+            if (dryRun) {
+              ctx.print(`${node.line}: FOR ${node.variable} IN ${node.source} (values known when run)`, "system");
+              await run(node.body, scope);
+              break;
+            }
+            if (error instanceof ScriptError) throw error;
+            throw new ScriptError(node.line, error instanceof Error ? error.message : String(error));
+          }
+          if (dryRun) {
+            ctx.print(`${node.line}: FOR ${node.variable} IN ${values.join(" ")}`, "system");
+          }
+          for (const value of values) {
+            await run(node.body, { ...scope, locals: { ...scope.locals, [node.variable]: value } });
+          }
+          break;
+        }
+        case "if": {
+          let result: boolean;
+          try {
+            result = evaluateCondition(expand(node.condition, node.line, scope, true));
+          } catch (error) {
+            // Likewise for conditions: show both branches
+            if (dryRun) {
+              ctx.print(`${node.line}: IF ${node.condition} (known when run)`, "system");
+              await run(node.then, scope);
+              if (node.otherwise.length > 0) {
+                ctx.print("ELSE", "system");
+                await run(node.otherwise, scope);
+              }
+              break;
+            }
+            if (error instanceof ScriptError) throw error;
+            throw new ScriptError(node.line, error instanceof Error ? error.message : String(error));
+          }
+          if (dryRun) {
+            ctx.print(`${node.line}: IF ${node.condition} -> ${result ? "true" : "false"}`, "system");
+          }
+          await run(result ? node.then : node.otherwise, scope);
+          break;
+        }
+        case "macro":
+          if (dryRun) {
+            ctx.print(`${node.line}: MACRO DEFINE ${node.name}`, "system");
+          } else {
+            try {
+              macroStore.define(node.name, node.source);
+            } catch (error) {
+              throw new ScriptError(node.line, error instanceof Error ? error.message : String(error));
+            }
+            ctx.print(`Macro ${node.name.toUpperCase()} defined.`, "system");
+          }
+          break;
+      }
+    }
+  };
+
+  depth++;
+  try {
+    await run(nodes, { params, locals: {} });
+  } finally {
+    depth--;
+  }
+}
@@ -0,0 +1,29 @@
+// Plain-text and CSV rendering for tabular command output
+
+export type TableRow = Record<string, string | number | null | undefined>;
+
+function cell(value: TableRow[string]): string {
+  return value === null || value === undefined ? "" : String(value);
+}
+
+// Left-aligned columns separated by two spaces, with a header and rule
+export function formatTable(columns: string[], rows: TableRow[]): string[] {
+  const widths = columns.map(column =>
+    Math.max(column.length, ...rows.map(row => cell(row[column]).length)),
+  );
+  const line = (values: string[]) => values.map((v, i) => v.padEnd(widths[i])).join("  ").trimEnd();
+
+  return [
+    line(columns),
+    line(widths.map(w => "-".repeat(w))),
+    ...rows.map(row => line(columns.map(column => cell(row[column])))),
+  ];
+}
+
+export function toCsv(columns: string[], rows: TableRow[]): string {
+  const escape = (value: string) => (/[",\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value);
+  return [
+    columns.map(escape).join(","),
+    ...rows.map(row => columns.map(column => escape(cell(row[column]))).join(",")),
+  ].join("\n") + "\n";
+}
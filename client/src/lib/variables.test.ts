@@ -0,0 +1,81 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+
+// Each test gets a fresh session
+let sessionVariables: typeof import("./variables").sessionVariables;
+
+beforeEach(async () => {
+  vi.resetModules();
+  ({ sessionVariables } = await import("./variables"));
+});
+
+const child = { id: "abci0", sat: 1_000, children: [{ id: "defi0" }, { id: "defi1" }] };
+
+describe("named variables", () => {
+  it("substitute $name", () => {
+    sessionVariables.set("height", "840000");
+    expect(sessionVariables.interpolate("BLOCK $height INFO")).toBe("BLOCK 840000 INFO");
+    expect(sessionVariables.interpolate("BLOCK $height.")).toBe("BLOCK 840000.");
+  });
+
+  it("reject invalid names and unset references", () => {
+    expect(() => sessionVariables.set("1st", "x")).toThrow("invalid variable name '1st'");
+    expect(() => sessionVariables.set("a-b", "x")).toThrow("invalid variable name 'a-b'");
+    expect(() => sessionVariables.interpolate("BLOCK $nope")).toThrow("$nope is not set");
+  });
+
+  it("can be navigated when they hold JSON", () => {
+    sessionVariables.set("ids", JSON.stringify(["abci0", "abci1"]));
+    sessionVariables.set("word", "hello");
+    expect(sessionVariables.interpolate("INSCRIPTION $ids[-1]")).toBe("INSCRIPTION abci1");
+    expect(() => sessionVariables.interpolate("ECHO $word.length")).toThrow("$word is text, not JSON, so .length can't be applied");
+  });
+});
+
+describe("results", () => {
+  it("substitute $_ for the last result and $n for result n", () => {
+    expect(() => sessionVariables.interpolate("SAT $_")).toThrow("$_ is not set: no command has returned a result yet");
+    expect(sessionVariables.recordResult(child)).toBe(1);
+    expect(sessionVariables.recordResult(["x", "y"])).toBe(2);
+
+    expect(sessionVariables.interpolate("SAT $1.sat")).toBe("SAT 1000");
+    expect(sessionVariables.interpolate("INSCRIPTION $1.children[1].id")).toBe("INSCRIPTION defi1");
+    expect(sessionVariables.interpolate("ECHO $_[0]")).toBe("ECHO x");
+    expect(() => sessionVariables.interpolate("ECHO $3")).toThrow("$3: no such result");
+  });
+
+  it("keep their numbers when old results are dropped", () => {
+    for (let i = 1; i <= 101; i++) sessionVariables.recordResult(i * 10);
+    expect(sessionVariables.listResults()).toHaveLength(100);
+    expect(sessionVariables.listResults()[0]).toEqual({ number: 2, value: 20 });
+    expect(sessionVariables.interpolate("$101")).toBe("1010");
+    expect(() => sessionVariables.interpolate("$1")).toThrow("$1: no such result");
+  });
+
+  it("report a path that selects nothing", () => {
+    sessionVariables.recordResult(child);
+    expect(() => sessionVariables.interpolate("SAT $_.parent")).toThrow("$_.parent is null");
+  });
+});
+
+describe("interpolate", () => {
+  beforeEach(() => {
+    sessionVariables.set("name", "two words");
+    sessionVariables.recordResult(child);
+  });
+
+  it("quotes values that would split into several arguments", () => {
+    expect(sessionVariables.interpolate("ECHO $name")).toBe(`ECHO "two words"`);
+    expect(sessionVariables.interpolate("ECHO $_.children[0]")).toBe(String.raw`ECHO "{\"id\":\"defi0\"}"`);
+  });
+
+  it("escapes without adding quotes inside double quotes", () => {
+    expect(sessionVariables.interpolate(`ECHO "name: $name"`)).toBe(`ECHO "name: two words"`);
+    expect(sessionVariables.interpolate(`ECHO "$_.children[0]"`)).toBe(String.raw`ECHO "{\"id\":\"defi0\"}"`);
+  });
+
+  it("leaves single-quoted and escaped references alone", () => {
+    expect(sessionVariables.interpolate("ECHO '$name'")).toBe("ECHO '$name'");
+    expect(sessionVariables.interpolate(String.raw`ECHO \$name`)).toBe(String.raw`ECHO \$name`);
+    expect(sessionVariables.interpolate("ECHO $ 5$")).toBe("ECHO $ 5$");
+  });
+});
@@ -0,0 +1,162 @@
+import { ArgumentError } from "./commandParser";
+import { parseSelector, select } from "./pipeline";
+
+// Session variables for the prompt: names set with SET, the last command result
+// as $_, and every result numbered in order as $1, $2, ... Any of them can be
+// followed by a path into a JSON value, e.g. $_.sat or $3.ids[0].
+
+export interface ResultEntry {
+  number: number;
+  value: unknown;
+}
+
+const VARIABLE_NAME = /^[A-Za-z][A-Za-z0-9_]*$/;
+
+// Only this many results are kept; their numbers don't change when older ones are dropped
+const MAX_RESULTS = 100;
+
+// $name, $_, $n, $# or $@, then an optional path
+const REFERENCE = /^\$([A-Za-z][A-Za-z0-9_]*|_|\d+|#|@)((?:\.[A-Za-z_$][\w$-]*|\[-?\d*\])*)/;
+
+// Parameters and loop variables of a running macro or script. Inside one,
+// $1..$n are its parameters rather than earlier results.
+export interface Scope {
+  params: string[];
+  locals: Record<string, string>;
+}
+
+// Text replacing a reference, or null to leave it as typed
+type ReferenceResolver = (name: string, path: string, inDoubleQuotes: boolean) => string | null;
+
+export function isVariableName(name: string): boolean {
+  return VARIABLE_NAME.test(name);
+}
+
+// Text to put in the command line; multi-word text is quoted so it stays one argument
+function toText(value: unknown, inDoubleQuotes: boolean): string {
+  const text = typeof value === "string" ? value : JSON.stringify(value);
+  const escaped = text.replace(/["\\]/g, "\\$&");
+  if (inDoubleQuotes) return escaped;
+  return /[\s"'\\|]/.test(text) ? `"${escaped}"` : text;
+}
+
+// Apply a path to a value, reading text as JSON
+function selectPath(label: string, value: unknown, path: string): unknown {
+  if (path === "") return value;
+  if (typeof value === "string") {
+    try {
+      value = JSON.parse(value);
+    } catch {
+      throw new ArgumentError(`${label} is text, not JSON, so ${path} can't be applied`);
+    }
+  }
+  const selected = select(value, parseSelector(path));
+  if (selected === null || selected === undefined) {
+    throw new ArgumentError(`${label}${path} is null`);
+  }
+  return selected;
+}
+
+// Replace references in a command line, except inside single quotes or after a backslash
+function replaceReferences(line: string, resolve: ReferenceResolver): string {
+  let output = "";
+  let quote: '"' | "'" | null = null;
+
+  for (let i = 0; i < line.length; i++) {
+    const char = line[i];
+    if (char === "\\" && quote !== "'" && i + 1 < line.length) {
+      output += char + line[++i];
+      continue;
+    }
+    if (char === "$" && quote !== "'") {
+      const match = line.slice(i).match(REFERENCE);
+      const text = match ? resolve(match[1], match[2], quote === '"') : null;
+      if (match && text !== null) {
+        output += text;
+        i += match[0].length - 1;
+        continue;
+      }
+    }
+    if (quote) {
+      if (char === quote) quote = null;
+    } else if (char === '"' || char === "'") {
+      quote = char;
+    }
+    output += char;
+  }
+  return output;
+}
+
+// Replace only a scope's parameters ($1, $#, $@) and locals, leaving other references
+export function substituteScope(line: string, scope: Scope): string {
+  return replaceReferences(line, (name, path, inDoubleQuotes) => {
+    if (name === "#") return String(scope.params.length);
+    if (name === "@") return scope.params.map(param => toText(param, inDoubleQuotes)).join(" ");
+    if (/^\d+$/.test(name)) {
+      const param = scope.params[Number(name) - 1];
+      if (param === undefined) throw new ArgumentError(`$${name}: only ${scope.params.length} parameter${scope.params.length === 1 ? "" : "s"} given`);
+      return toText(selectPath(`$${name}`, param, path), inDoubleQuotes);
+    }
+    if (name in scope.locals) {
+      return toText(selectPath(`$${name}`, scope.locals[name], path), inDoubleQuotes);
+    }
+    return null;
+  });
+}
+
+class SessionVariables {
+  private named = new Map<string, string>();
+  private results: ResultEntry[] = [];
+  private nextNumber = 1;
+
+  set(name: string, value: string) {
+    if (!isVariableName(name)) {
+      throw new ArgumentError(`invalid variable name '${name}' (letters, digits and _, starting with a letter)`);
+    }
+    this.named.set(name, value);
+  }
+
+  get(name: string): string | undefined {
+    return this.named.get(name);
+  }
+
+  variables(): [string, string][] {
+    return Array.from(this.named.entries());
+  }
+
+  recordResult(value: unknown): number {
+    const number = this.nextNumber++;
+    this.results = [...this.results, { number, value }].slice(-MAX_RESULTS);
+    return number;
+  }
+
+  listResults(): ResultEntry[] {
+    return this.results;
+  }
+
+  // Value of $name, $_ or $n with an optional path
+  resolve(name: string, path: string): unknown {
+    let value: unknown;
+    if (name === "_") {
+      if (this.results.length === 0) throw new ArgumentError("$_ is not set: no command has returned a result yet");
+      value = this.results[this.results.length - 1].value;
+    } else if (/^\d+$/.test(name)) {
+      const entry = this.results.find(result => result.number === Number(name));
+      if (!entry) throw new ArgumentError(`$${name}: no such result`);
+      value = entry.value;
+    } else {
+      value = this.named.get(name);
+      if (value === undefined) throw new ArgumentError(`$${name} is not set`);
+    }
+    // Variables set to JSON text can be navigated like results
+    return selectPath(`$${name}`, value, path);
+  }
+
+  // Replace $name, $_ and $n references; $# and $@ only mean something in a script
+  interpolate(line: string): string {
+    return replaceReferences(line, (name, path, inDoubleQuotes) =>
+      name === "#" || name === "@" ? null : toText(this.resolve(name, path), inDoubleQuotes));
+  }
+}
+
+export const sessionVariables = new SessionVariables();
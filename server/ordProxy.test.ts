@@ -0,0 +1,220 @@
+import express from "express";
+import fs from "fs/promises";
+import http from "http";
+import type { AddressInfo } from "net";
+import os from "os";
+import path from "path";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { OrdProxy, type OrdProxyOptions } from "./ordProxy";
+
+vi.mock("./vite", () => ({ log: vi.fn() }));
+
+const ID = `${"ab".repeat(32)}i0`;
+
+// A stand-in ord server that counts requests and can be told to hold them
+let upstream: http.Server;
+let upstreamUrl: string;
+let upstreamRequests: string[];
+let hold: Promise<void> | null;
+let release: () => void;
+
+let proxyServer: http.Server;
+let proxyUrl: string;
+let cacheDir: string;
+
+function listen(server: http.Server): Promise<string> {
+  return new Promise(resolve => server.listen(0, "127.0.0.1", () => {
+    resolve(`http://127.0.0.1:${(server.address() as AddressInfo).port}`);
+  }));
+}
+
+function close(server: http.Server): Promise<void> {
+  server.closeAllConnections();
+  return new Promise(resolve => server.close(() => resolve()));
+}
+
+async function startProxy(options: Partial<OrdProxyOptions> = {}) {
+  const app = express();
+  const proxy = new OrdProxy({
+    upstream: upstreamUrl,
+    cacheDir,
+    timeoutMs: 1_000,
+    maxCacheEntryBytes: 1024,
+    ...options,
+  });
+  app.use("/api/ord", proxy.handler());
+  proxyServer = http.createServer(app);
+  proxyUrl = `${await listen(proxyServer)}/api/ord`;
+}
+
+// Raw request, so paths like /r/../x reach the server as written
+function request(method: string, requestPath: string): Promise<{ status: number; headers: http.IncomingHttpHeaders; body: string }> {
+  const { hostname, port } = new URL(proxyUrl);
+  return new Promise((resolve, reject) => {
+    const req = http.request({ method, hostname, port, path: `/api/ord${requestPath}` }, res => {
+      let body = "";
+      res.setEncoding("utf8");
+      res.on("data", chunk => (body += chunk));
+      res.on("end", () => resolve({ status: res.statusCode!, headers: res.headers, body }));
+    });
+    req.on("error", reject);
+    req.end();
+  });
+}
+
+beforeEach(async () => {
+  cacheDir = await fs.mkdtemp(path.join(os.tmpdir(), "ord-proxy-test-"));
+  upstreamRequests = [];
+  hold = null;
+  upstream = http.createServer(async (req, res) => {
+    upstreamRequests.push(`${req.method} ${req.url}`);
+    if (hold) await hold;
+    if (req.url === "/r/missing") {
+      res.writeHead(404, { "Content-Type": "text/plain" }).end("not found");
+      return;
+    }
+    res.writeHead(200, { "Content-Type": "text/plain" }).end(`body of ${req.url}`);
+  });
+  upstreamUrl = await listen(upstream);
+  await startProxy();
+});
+
+afterEach(async () => {
+  release?.();
+  await close(proxyServer);
+  await close(upstream);
+  await fs.rm(cacheDir, { recursive: true, force: true });
+});
+
+function holdUpstream() {
+  hold = new Promise(resolve => (release = resolve));
+}
+
+describe("path and method checks", () => {
+  it("forwards ord endpoints", async () => {
+    const response = await request("GET", "/r/blockheight");
+    expect(response.status).toBe(200);
+    expect(response.body).toBe("body of /r/blockheight");
+    expect(response.headers["x-ord-proxy-cache"]).toBe("BYPASS");
+    expect(upstreamRequests).toEqual(["GET /r/blockheight"]);
+  });
+
+  it("rejects paths outside /content and /r", async () => {
+    for (const rejected of ["/status", "/r/sat%00", "/r/a%2e%2e"]) {
+      const response = await request("GET", rejected);
+      expect(response.status).toBe(400);
+      expect(JSON.parse(response.body)).toMatchObject({ code: "BAD_PATH" });
+    }
+    expect(upstreamRequests).toEqual([]);
+  });
+
+  it("rejects .. segments", async () => {
+    const response = await request("GET", "/r/../../status");
+    expect(response.status).toBe(400);
+    expect(JSON.parse(response.body).message).toBe("Not an ord endpoint: /r/../../status");
+    expect(upstreamRequests).toEqual([]);
+  });
+
+  it("only allows reads", async () => {
+    const response = await request("POST", "/r/blockheight");
+    expect(response.status).toBe(405);
+    expect(JSON.parse(response.body)).toMatchObject({ code: "METHOD_NOT_ALLOWED" });
+  });
+
+  it("sandboxes inscription content", async () => {
+    const response = await request("GET", `/content/${ID}`);
+    expect(response.headers["content-security-policy"]).toBe("sandbox allow-scripts");
+  });
+});
+
+describe("upstream failures", () => {
+  it("answers 504 when the upstream times out", async () => {
+    await close(proxyServer);
+    await startProxy({ timeoutMs: 50 });
+    holdUpstream();
+
+    const response = await request("GET", "/r/blockheight");
+    expect(response.status).toBe(504);
+    expect(JSON.parse(response.body)).toMatchObject({ code: "UPSTREAM_TIMEOUT", message: "Upstream did not answer within 50ms" });
+  });
+
+  it("answers 502 when the upstream can't be reached", async () => {
+    await close(proxyServer);
+    await startProxy({ upstream: "http://127.0.0.1:1" });
+
+    const response = await request("GET", "/r/blockheight");
+    expect(response.status).toBe(502);
+    expect(JSON.parse(response.body)).toMatchObject({ code: "UPSTREAM_UNREACHABLE" });
+  });
+
+  it("passes upstream errors through without caching them", async () => {
+    expect((await request("GET", "/r/missing")).status).toBe(404);
+    expect((await request("GET", "/r/missing")).status).toBe(404);
+    expect(upstreamRequests).toHaveLength(2);
+  });
+});
+
+describe("coalescing", () => {
+  it("shares one upstream fetch between concurrent requests", async () => {
+    holdUpstream();
+    const first = request("GET", "/r/blockheight");
+    const second = request("GET", "/r/blockheight");
+    await vi.waitFor(() => expect(upstreamRequests).toHaveLength(1));
+    release();
+
+    const responses = await Promise.all([first, second]);
+    expect(responses.map(response => response.body)).toEqual(["body of /r/blockheight", "body of /r/blockheight"]);
+    expect(responses.map(response => response.headers["x-ord-proxy-cache"]).sort()).toEqual(["BYPASS", "COALESCED"]);
+    expect(upstreamRequests).toHaveLength(1);
+  });
+});
+
+describe("disk cache", () => {
+  it("serves immutable responses from disk after the first fetch", async () => {
+    const miss = await request("GET", `/content/${ID}`);
+    const hit = await request("GET", `/content/${ID}`);
+
+    expect(miss.headers["x-ord-proxy-cache"]).toBe("MISS");
+    expect(hit.headers["x-ord-proxy-cache"]).toBe("HIT");
+    expect(hit.body).toBe(miss.body);
+    expect(hit.headers["content-type"]).toMatch(/^text\/plain/);
+    expect(hit.headers["cache-control"]).toBe("public, max-age=31536000, immutable");
+    expect(upstreamRequests).toEqual([`GET /content/${ID}`]);
+  });
+
+  it("never caches mutable endpoints", async () => {
+    await request("GET", "/r/blockheight");
+    const second = await request("GET", "/r/blockheight");
+    expect(second.headers["x-ord-proxy-cache"]).toBe("BYPASS");
+    expect(upstreamRequests).toHaveLength(2);
+  });
+
+  it("writes complete files and leaves no temporary ones", async () => {
+    await request("GET", `/content/${ID}`);
+    const files = await fs.readdir(cacheDir);
+
+    expect(files.filter(file => file.endsWith(".tmp"))).toEqual([]);
+    expect(files.map(file => path.extname(file)).sort()).toEqual([".bin", ".json"]);
+    const bin = files.find(file => file.endsWith(".bin"))!;
+    expect(await fs.readFile(path.join(cacheDir, bin), "utf8")).toBe(`body of /content/${ID}`);
+  });
+
+  it("refetches when an entry is incomplete", async () => {
+    await request("GET", `/content/${ID}`);
+    const bin = (await fs.readdir(cacheDir)).find(file => file.endsWith(".bin"))!;
+    await fs.rm(path.join(cacheDir, bin));
+
+    const response = await request("GET", `/content/${ID}`);
+    expect(response.headers["x-ord-proxy-cache"]).toBe("MISS");
+    expect(upstreamRequests).toHaveLength(2);
+  });
+
+  it("skips entries larger than the limit", async () => {
+    await close(proxyServer);
+    await startProxy({ maxCacheEntryBytes: 4 });
+
+    await request("GET", `/content/${ID}`);
+    expect(await fs.readdir(cacheDir)).toEqual([]);
+    expect((await request("GET", `/content/${ID}`)).headers["x-ord-proxy-cache"]).toBe("MISS");
+  });
+});
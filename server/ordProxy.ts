@@ -0,0 +1,232 @@
+import type { Request, RequestHandler, Response } from "express";
+import { createHash } from "crypto";
+import fs from "fs/promises";
+import path from "path";
+import { log } from "./vite";
+
+// Forwards ord recursive endpoints and /content to a configurable upstream.
+// Immutable responses are cached on disk, and concurrent requests for the
+// same path share a single upstream fetch.
+
+export interface OrdProxyOptions {
+  upstream: string;
+  cacheDir: string;
+  timeoutMs: number;
+  maxCacheEntryBytes: number;
+}
+
+export function ordProxyOptionsFromEnv(env: NodeJS.ProcessEnv = process.env): OrdProxyOptions {
+  return {
+    upstream: (env.ORD_UPSTREAM_URL || "https://ordinals.com").replace(/\/+$/, ""),
+    cacheDir: env.ORD_PROXY_CACHE_DIR || path.resolve(".cache", "ord-proxy"),
+    timeoutMs: Number(env.ORD_PROXY_TIMEOUT_MS) || 10_000,
+    maxCacheEntryBytes: 10 * 1024 * 1024,
+  };
+}
+
+export type OrdProxyErrorCode = "BAD_PATH" | "METHOD_NOT_ALLOWED" | "UPSTREAM_TIMEOUT" | "UPSTREAM_UNREACHABLE";
+
+export class OrdProxyError extends Error {
+  constructor(
+    public readonly status: number,
+    public readonly code: OrdProxyErrorCode,
+    message: string,
+  ) {
+    super(message);
+    this.name = "OrdProxyError";
+  }
+}
+
+interface UpstreamResponse {
+  status: number;
+  contentType: string | null;
+  body: Buffer;
+}
+
+interface CacheMeta {
+  path: string;
+  status: number;
+  contentType: string | null;
+  storedAt: number;
+}
+
+type CacheState = "HIT" | "MISS" | "COALESCED" | "BYPASS";
+
+// Only ord paths are forwarded, so the proxy can't be used to reach anything else
+const ALLOWED_PATH = /^\/(content|r)\/[A-Za-z0-9_:.\/-]*$/;
+
+// Responses that never change once they exist
+const IMMUTABLE_PATHS = [
+  /^\/content\/[0-9a-f]{64}i\d+$/,
+  /^\/r\/undelegated-content\/[0-9a-f]{64}i\d+$/,
+  /^\/r\/metadata\/[0-9a-f]{64}i\d+$/,
+  /^\/r\/tx\/[0-9a-f]{64}$/,
+  /^\/r\/blockinfo\/[0-9a-f]{64}$/,
+];
+
+function isImmutable(upstreamPath: string): boolean {
+  return IMMUTABLE_PATHS.some(pattern => pattern.test(upstreamPath));
+}
+
+function isContentPath(upstreamPath: string): boolean {
+  return upstreamPath.startsWith("/content/") || upstreamPath.startsWith("/r/undelegated-content/");
+}
+
+export class OrdProxy {
+  private inFlight = new Map<string, Promise<UpstreamResponse>>();
+
+  constructor(readonly options: OrdProxyOptions) {}
+
+  // Express handler; mount it with app.use("/api/ord", proxy.handler())
+  handler(): RequestHandler {
+    return async (req, res) => {
+      res.setHeader("Access-Control-Allow-Origin", "*");
+      if (req.method === "OPTIONS") {
+        res.setHeader("Access-Control-Allow-Methods", "GET, HEAD, OPTIONS");
+        res.status(204).end();
+        return;
+      }
+
+      try {
+        const upstreamPath = this.validate(req);
+        const { response, cache } = await this.get(upstreamPath, req.method === "HEAD");
+        this.send(res, upstreamPath, response, cache, req.method === "HEAD");
+      } catch (error) {
+        this.sendError(res, error);
+      }
+    };
+  }
+
+  private validate(req: Request): string {
+    if (req.method !== "GET" && req.method !== "HEAD") {
+      throw new OrdProxyError(405, "METHOD_NOT_ALLOWED", `Method ${req.method} is not supported`);
+    }
+    const upstreamPath = req.path;
+    if (!ALLOWED_PATH.test(upstreamPath) || upstreamPath.split("/").includes("..")) {
+      throw new OrdProxyError(400, "BAD_PATH", `Not an ord endpoint: ${upstreamPath}`);
+    }
+    return upstreamPath;
+  }
+
+  async get(upstreamPath: string, headOnly = false): Promise<{ response: UpstreamResponse; cache: CacheState }> {
+    const cacheable = isImmutable(upstreamPath);
+    if (cacheable) {
+      const cached = await this.readCache(upstreamPath);
+      if (cached) {
+        return { response: cached, cache: "HIT" };
+      }
+    }
+
+    // HEAD requests go straight through rather than downloading a body
+    if (headOnly) {
+      return { response: await this.fetchUpstream(upstreamPath, "HEAD"), cache: "BYPASS" };
+    }
+
+    const pending = this.inFlight.get(upstreamPath);
+    if (pending) {
+      return { response: await pending, cache: "COALESCED" };
+    }
+
+    const request = this.fetchUpstream(upstreamPath, "GET").then(async response => {
+      if (cacheable && response.status === 200) {
+        await this.writeCache(upstreamPath, response);
+      }
+      return response;
+    });
+    this.inFlight.set(upstreamPath, request);
+    try {
+      return { response: await request, cache: cacheable ? "MISS" : "BYPASS" };
+    } finally {
+      this.inFlight.delete(upstreamPath);
+    }
+  }
+
+  private async fetchUpstream(upstreamPath: string, method: "GET" | "HEAD"): Promise<UpstreamResponse> {
+    const url = `${this.options.upstream}${upstreamPath}`;
+    let response;
+    try {
+      response = await fetch(url, { method, signal: AbortSignal.timeout(this.options.timeoutMs) });
+    } catch (error) {
+      if (error instanceof Error && error.name === "TimeoutError") {
+        throw new OrdProxyError(504, "UPSTREAM_TIMEOUT", `Upstream did not answer within ${this.options.timeoutMs}ms`);
+      }
+      throw new OrdProxyError(502, "UPSTREAM_UNREACHABLE", `Upstream request failed: ${error instanceof Error ? error.message : String(error)}`);
+    }
+
+    return {
+      status: response.status,
+      contentType: response.headers.get("Content-Type"),
+      body: method === "HEAD" ? Buffer.alloc(0) : Buffer.from(await response.arrayBuffer()),
+    };
+  }
+
+  private cacheFile(upstreamPath: string, extension: string): string {
+    const key = createHash("sha256").update(upstreamPath).digest("hex");
+    return path.join(this.options.cacheDir, `${key}.${extension}`);
+  }
+
+  private async readCache(upstreamPath: string): Promise<UpstreamResponse | null> {
+    try {
+      const meta: CacheMeta = JSON.parse(await fs.readFile(this.cacheFile(upstreamPath, "json"), "utf8"));
+      const body = await fs.readFile(this.cacheFile(upstreamPath, "bin"));
+      return { status: meta.status, contentType: meta.contentType, body };
+    } catch {
+      return null;
+    }
+  }
+
+  // The body is written before the metadata, so a readable .json always has a complete .bin
+  private async writeCache(upstreamPath: string, response: UpstreamResponse) {
+    if (response.body.length > this.options.maxCacheEntryBytes) {
+      return;
+    }
+    const meta: CacheMeta = {
+      path: upstreamPath,
+      status: response.status,
+      contentType: response.contentType,
+      storedAt: Date.now(),
+    };
+    try {
+      await fs.mkdir(this.options.cacheDir, { recursive: true });
+      await writeAtomic(this.cacheFile(upstreamPath, "bin"), response.body);
+      await writeAtomic(this.cacheFile(upstreamPath, "json"), JSON.stringify(meta));
+    } catch (error) {
+      log(`cache write failed for ${upstreamPath}: ${error instanceof Error ? error.message : String(error)}`, "ord-proxy");
+    }
+  }
+
+  private send(res: Response, upstreamPath: string, response: UpstreamResponse, cache: CacheState, headOnly: boolean) {
+    res.status(response.status);
+    res.setHeader("X-Ord-Proxy-Cache", cache);
+    if (response.contentType) {
+      res.setHeader("Content-Type", response.contentType);
+    }
+    if (isImmutable(upstreamPath) && response.status === 200) {
+      res.setHeader("Cache-Control", "public, max-age=31536000, immutable");
+    }
+    // Inscription content is served from our origin, so keep its scripts out of it
+    if (isContentPath(upstreamPath)) {
+      res.setHeader("Content-Security-Policy", "sandbox allow-scripts");
+    }
+    if (headOnly) {
+      res.end();
+    } else {
+      res.send(response.body);
+    }
+  }
+
+  private sendError(res: Response, error: unknown) {
+    if (error instanceof OrdProxyError) {
+      res.status(error.status).json({ message: error.message, code: error.code, upstream: this.options.upstream });
+      return;
+    }
+    const message = error instanceof Error ? error.message : String(error);
+    res.status(500).json({ message, code: "INTERNAL", upstream: this.options.upstream });
+  }
+}
+
+async function writeAtomic(file: string, data: Buffer | string) {
+  const temp = `${file}.${process.pid}.tmp`;
+  await fs.writeFile(temp, data);
+  await fs.rename(temp, file);
+}
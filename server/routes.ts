@@ -1,6 +1,8 @@
 import type { Express } from "express";
 import { createServer, type Server } from "http";
+import { OrdProxy, ordProxyOptionsFromEnv } from "./ordProxy";
 import { storage } from "./storage";
+import { log } from "./vite";
 
 export async function registerRoutes(app: Express): Promise<Server> {
   // put application routes here
@@ -9,6 +11,11 @@ export async function registerRoutes(app: Express): Promise<Server> {
   // use storage to perform CRUD operations on the storage interface
   // e.g. storage.insertUser(user) or storage.getUserByUsername(username)
 
+  // Ord recursive endpoints and content, forwarded to ORD_UPSTREAM_URL
+  const ordProxy = new OrdProxy(ordProxyOptionsFromEnv());
+  app.use("/api/ord", ordProxy.handler());
+  log(`proxying /api/ord to ${ordProxy.options.upstream}`, "ord-proxy");
+
   const httpServer = createServer(app);
 
   return httpServer;